@@ -1,23 +1,168 @@
-import { AccessToken } from "livekit-server-sdk";
-import { NextResponse } from "next/server";
+import { AccessToken, RoomAgentDispatch, RoomConfiguration } from "livekit-server-sdk";
+import { randomUUID } from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  createJoinCode,
+  createResumeToken,
+  JOIN_CODE_PATTERN,
+  readResumeToken,
+  RESUME_TOKEN_PATTERN,
+  roomFromJoinCode,
+  type ResumeClaims,
+} from "@/lib/join-code";
 
-export async function GET() {
+const AGENT_NAME_PATTERN = /^[\w.-]{1,64}$/;
+
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+const MIN_TTL_SECONDS = 60;
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+
+// LiveKit rejects participant metadata larger than this
+const MAX_METADATA_BYTES = 64 * 1024;
+
+type ErrorCode = "invalid_request" | "invalid_join_code" | "invalid_resume_token" | "not_configured" | "token_failed";
+
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface TokenRequest {
+  resume?: string; // resume token for a room we started earlier
+  join?: string; // join code for someone else's room
+  name?: string;
+  metadata?: Record<string, unknown>;
+  ttlSeconds?: number;
+  agent?: {
+    name?: string;
+    metadata?: Record<string, unknown>;
+  };
+}
+
+function errorResponse(status: number, code: ErrorCode, message: string, details?: FieldError[]) {
+  return NextResponse.json({ error: { code, message, ...(details ? { details } : {}) } }, { status });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkMetadata(value: unknown, field: string, errors: FieldError[]): Record<string, unknown> | undefined {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    errors.push({ field, message: "must be a JSON object" });
+    return undefined;
+  }
+  if (new TextEncoder().encode(JSON.stringify(value)).length > MAX_METADATA_BYTES) {
+    errors.push({ field, message: `must serialize to at most ${MAX_METADATA_BYTES} bytes` });
+    return undefined;
+  }
+  return value;
+}
+
+function checkPattern(value: unknown, field: string, pattern: RegExp, errors: FieldError[]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !pattern.test(value)) {
+    errors.push({ field, message: `must match ${pattern}` });
+    return undefined;
+  }
+  return value;
+}
+
+function parseTokenRequest(input: Record<string, unknown>): { request: TokenRequest; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const request: TokenRequest = {
+    resume: checkPattern(input.resume, "resume", RESUME_TOKEN_PATTERN, errors),
+    join: checkPattern(input.join, "join", JOIN_CODE_PATTERN, errors),
+    metadata: checkMetadata(input.metadata, "metadata", errors),
+  };
+
+  if (input.room !== undefined) {
+    errors.push({ field: "room", message: "is chosen by the server; pass a resume token to rejoin a room" });
+  }
+  // Otherwise anyone could take over another participant's identity in the room
+  if (input.identity !== undefined) {
+    errors.push({ field: "identity", message: "is assigned by the server" });
+  }
+  if (request.resume && request.join) {
+    errors.push({ field: "join", message: "cannot be combined with resume" });
+  }
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || input.name.trim().length === 0 || input.name.length > 64) {
+      errors.push({ field: "name", message: "must be a non-empty string of at most 64 characters" });
+    } else {
+      request.name = input.name.trim();
+    }
+  }
+
+  if (input.ttl !== undefined) {
+    const ttl = typeof input.ttl === "string" ? Number(input.ttl) : input.ttl;
+    if (typeof ttl !== "number" || !Number.isInteger(ttl) || ttl < MIN_TTL_SECONDS || ttl > MAX_TTL_SECONDS) {
+      errors.push({
+        field: "ttl",
+        message: `must be an integer number of seconds between ${MIN_TTL_SECONDS} and ${MAX_TTL_SECONDS}`,
+      });
+    } else {
+      request.ttlSeconds = ttl;
+    }
+  }
+
+  if (input.agent !== undefined) {
+    if (!isRecord(input.agent)) {
+      errors.push({ field: "agent", message: "must be an object" });
+    } else {
+      request.agent = {
+        name: checkPattern(input.agent.name, "agent.name", AGENT_NAME_PATTERN, errors),
+        metadata: checkMetadata(input.agent.metadata, "agent.metadata", errors),
+      };
+    }
+  }
+
+  return { request, errors };
+}
+
+async function issueToken(input: Record<string, unknown>) {
   const apiKey = process.env.LIVEKIT_API_KEY;
   const apiSecret = process.env.LIVEKIT_API_SECRET;
   const livekitUrl = process.env.LIVEKIT_URL;
 
   if (!apiKey || !apiSecret || !livekitUrl) {
-    return NextResponse.json(
-      { error: "LiveKit credentials not configured" },
-      { status: 500 }
-    );
+    return errorResponse(500, "not_configured", "LiveKit credentials not configured");
+  }
+
+  const { request, errors } = parseTokenRequest(input);
+  if (errors.length > 0) {
+    return errorResponse(400, "invalid_request", "Invalid token request", errors);
+  }
+
+  let joinedRoom: string | undefined;
+  if (request.join) {
+    joinedRoom = roomFromJoinCode(request.join, apiSecret) ?? undefined;
+    if (!joinedRoom) {
+      return errorResponse(403, "invalid_join_code", "Join code is not valid");
+    }
+  }
+  let resumed: ResumeClaims | undefined;
+  if (request.resume) {
+    resumed = readResumeToken(request.resume, apiSecret) ?? undefined;
+    if (!resumed) {
+      return errorResponse(403, "invalid_resume_token", "Resume token is not valid or has expired");
+    }
   }
 
-  const roomName = `chef-claude-${Date.now()}`;
-  const participantName = `user-${Math.random().toString(36).slice(2, 7)}`;
+  // Random so nobody can guess their way into someone else's kitchen
+  const roomName = joinedRoom ?? resumed?.room ?? `chef-claude-${randomUUID()}`;
+  const participantName = resumed?.identity ?? `user-${randomUUID()}`;
+  const ttlSeconds = request.ttlSeconds ?? DEFAULT_TTL_SECONDS;
 
   const at = new AccessToken(apiKey, apiSecret, {
     identity: participantName,
+    name: request.name,
+    metadata: request.metadata ? JSON.stringify(request.metadata) : undefined,
+    // Guests came in with a join code; the UI shows it and the agent can address them
+    attributes: { role: joinedRoom ? "guest" : "host" },
+    ttl: ttlSeconds,
   });
 
   at.addGrant({
@@ -27,7 +172,73 @@ export async function GET() {
     canSubscribe: true,
   });
 
-  const token = await at.toJwt();
+  // Explicit dispatch only when an agent name is known; otherwise LiveKit's
+  // automatic dispatch joins whichever agent worker is registered.
+  // Guests join a room whose agent is already there.
+  const agentName = request.agent?.name ?? process.env.LIVEKIT_AGENT_NAME;
+  if (agentName && !joinedRoom) {
+    at.roomConfig = new RoomConfiguration({
+      agents: [
+        new RoomAgentDispatch({
+          agentName,
+          metadata: request.agent?.metadata ? JSON.stringify(request.agent.metadata) : "",
+        }),
+      ],
+    });
+  }
+
+  try {
+    const token = await at.toJwt();
+    return NextResponse.json({
+      token,
+      url: livekitUrl,
+      room: roomName,
+      identity: participantName,
+      // Only the cook who started the room can invite others or come back as its host
+      ...(joinedRoom
+        ? {}
+        : {
+            joinCode: createJoinCode(roomName, apiSecret),
+            resume: createResumeToken({ room: roomName, identity: participantName }, apiSecret),
+          }),
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+  } catch (err) {
+    console.error("[token] failed to sign access token", err);
+    return errorResponse(500, "token_failed", "Failed to create access token");
+  }
+}
+
+// Query strings only carry text, so object fields are passed as JSON
+const JSON_QUERY_FIELDS = ["metadata", "agent"];
+
+function fromSearchParams(params: URLSearchParams): Record<string, unknown> {
+  const input: Record<string, unknown> = Object.fromEntries(params);
+  for (const field of JSON_QUERY_FIELDS) {
+    const value = input[field];
+    if (typeof value !== "string") continue;
+    try {
+      input[field] = JSON.parse(value);
+    } catch {
+      // Left as text; validation reports that it must be a JSON object
+    }
+  }
+  return input;
+}
+
+export async function GET(request: NextRequest) {
+  return issueToken(fromSearchParams(request.nextUrl.searchParams));
+}
 
-  return NextResponse.json({ token, url: livekitUrl });
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "invalid_request", "Request body must be JSON");
+  }
+  if (!isRecord(body)) {
+    return errorResponse(400, "invalid_request", "Request body must be a JSON object");
+  }
+  return issueToken(body);
 }
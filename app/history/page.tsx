@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { removeCookLogEntry, updateCookLogEntry, useCookLog, type CookLogEntry } from "@/lib/cook-log";
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function CookLogCard({ entry }: { entry: CookLogEntry }) {
+  const [draft, setDraft] = useState(entry.notes ?? "");
+  const started = new Date(entry.startedAt);
+  const title = entry.recipeTitle ?? entry.chosenDish ?? "Untitled session";
+
+  return (
+    <li className="bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-2xl border border-zinc-700 px-5 py-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-white truncate">{title}</h2>
+          <p className="text-xs text-zinc-400 mt-1">
+            {started.toLocaleDateString()} {started.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })} ·{" "}
+            {formatDuration(entry.endedAt - entry.startedAt)}
+          </p>
+        </div>
+        <button
+          onClick={() => removeCookLogEntry(entry.id)}
+          className="text-zinc-500 hover:text-zinc-300 transition-colors p-1 shrink-0"
+          title="Delete entry"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m7 7 10 10" />
+            <path d="M7 17 17 7" />
+          </svg>
+        </button>
+      </div>
+
+      <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+        {entry.chosenDish && entry.chosenDish !== entry.recipeTitle && (
+          <>
+            <dt className="text-zinc-500">Picked</dt>
+            <dd className="text-zinc-200">{entry.chosenDish}</dd>
+          </>
+        )}
+        {entry.totalSteps > 0 && (
+          <>
+            <dt className="text-zinc-500">Steps</dt>
+            <dd className="text-zinc-200">
+              {entry.stepsReached} of {entry.totalSteps}
+              {entry.stepsReached >= entry.totalSteps && " ✓"}
+            </dd>
+          </>
+        )}
+        {entry.timers.length > 0 && (
+          <>
+            <dt className="text-zinc-500">Timers</dt>
+            <dd className="text-zinc-200">
+              {entry.timers.map((t) => `${t.label} (${formatDuration(t.durationSeconds * 1000)})`).join(", ")}
+            </dd>
+          </>
+        )}
+      </dl>
+
+      <div className="flex items-center gap-1 mt-3" role="radiogroup" aria-label="Rating">
+        {[1, 2, 3, 4, 5].map((n) => (
+          <button
+            key={n}
+            role="radio"
+            aria-checked={entry.rating === n}
+            onClick={() => updateCookLogEntry(entry.id, { rating: entry.rating === n ? undefined : n })}
+            className={`text-xl leading-none transition-colors ${
+              entry.rating && n <= entry.rating ? "text-orange-400" : "text-zinc-600 hover:text-zinc-400"
+            }`}
+            title={`${n} star${n !== 1 ? "s" : ""}`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          if (draft !== (entry.notes ?? "")) updateCookLogEntry(entry.id, { notes: draft.trim() || undefined });
+        }}
+        placeholder="Notes for next time, e.g. too salty, halve the soy sauce"
+        rows={2}
+        className="mt-2 w-full rounded-lg bg-zinc-900 border border-zinc-700 px-3 py-2 text-sm text-white placeholder:text-zinc-500 focus:outline-none focus:border-orange-600/60 resize-none"
+      />
+    </li>
+  );
+}
+
+export default function CookLogPage() {
+  const log = useCookLog();
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-zinc-950 text-white font-sans p-6">
+      <div className="w-full max-w-md">
+        <Link href="/" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+          ← Chef Claude
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight mt-2 mb-6">Cook log</h1>
+
+        {log?.length === 0 && (
+          <p className="text-sm text-zinc-400">
+            Nothing cooked yet. Sessions show up here once you pick a dish or start a recipe.
+          </p>
+        )}
+
+        <ul className="flex flex-col gap-3">
+          {log?.map((entry) => <CookLogCard key={entry.id} entry={entry} />)}
+        </ul>
+      </div>
+    </div>
+  );
+}
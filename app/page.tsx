@@ -7,67 +7,143 @@ import {
   BarVisualizer,
   DisconnectButton,
   VideoTrack,
+  useConnectionState,
+  useIsSpeaking,
   useLocalParticipant,
+  useParticipants,
+  useTranscriptions,
 } from "@livekit/components-react";
 import "@livekit/components-styles";
-import { RoomEvent, Track, facingModeFromLocalTrack, type LocalVideoTrack } from "livekit-client";
-import { useCallback, useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import AudioSettingsPanel from "@/components/AudioSettingsPanel";
+import ConflictBanner from "@/components/ConflictBanner";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import CookTogetherPanel from "@/components/CookTogetherPanel";
+import CookingMode from "@/components/CookingMode";
+import DiagnosticsOverlay from "@/components/DiagnosticsOverlay";
+import GroceryExportPanel from "@/components/GroceryExportPanel";
+import IngredientList from "@/components/IngredientList";
+import JoinSessionForm from "@/components/JoinSessionForm";
+import PastNotesBanner from "@/components/PastNotesBanner";
+import PrintableRecipe from "@/components/PrintableRecipe";
+import SnapshotGallery from "@/components/SnapshotGallery";
+import StepList from "@/components/StepList";
+import TranscriptPanel from "@/components/TranscriptPanel";
+import {
+  ConnectionState,
+  DisconnectReason,
+  RoomEvent,
+  Track,
+  facingModeFromLocalTrack,
+  type DataPacket_Kind,
+  type LocalVideoTrack,
+  type RemoteParticipant,
+  type RoomOptions,
+} from "livekit-client";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRoomContext } from "@livekit/components-react";
+import {
+  decodeAgentMessage,
+  publishClientMessage,
+  reportDecodeResult,
+  decodePeerMessage,
+  setDataMessageObserver,
+  type AgentMessage,
+  type ClientMessage,
+  type DataMessageObserver,
+  type PeerMessage,
+  type TimerEvent,
+} from "@/lib/protocol";
+import {
+  consolidateGroceryList,
+  setGroceryChecked,
+  toWireGroceryList,
+  type GroceryRef,
+} from "@/lib/grocery";
+import { describeConflicts, recipeConflicts, type RecipeConflict } from "@/lib/allergens";
+import { loadAudioSettings, toCaptureOptions, useAudioSettings, type AudioSettings } from "@/lib/audio-settings";
+import { newCookLogId, pastNotesFor, useCookLogRecorder } from "@/lib/cook-log";
+import { findCookbookEntry, findSavedRecipe, removeRecipe, saveRecipe, useCookbook } from "@/lib/cookbook";
+import { fetchTokenWithRetry, RETRY_DELAYS_MS, type ConnectionDetails, type RoomTarget } from "@/lib/connection";
+import { countDataMessage, recordAgentState, recordUserSpeaking, resetDiagnostics } from "@/lib/diagnostics";
+import { downloadFile } from "@/lib/download";
+import { downloadEventLog, recordEvent, useEventLogEnabled } from "@/lib/event-log";
+import { timerLabelFor, type StepDuration } from "@/lib/durations";
+import {
+  clearSession,
+  isEmptySession,
+  loadSession,
+  saveSession,
+  sessionFromRecipe,
+  useSavedSession,
+  type SessionSnapshot,
+  type SessionState,
+} from "@/lib/session";
+import {
+  EMPTY_SESSION_VIEW,
+  reduceAgentMessage,
+  reducePeerMessage,
+  reducePublishedMessage,
+  reduceTimer,
+  type Reduced,
+  type SessionView,
+  type TimerAction,
+} from "@/lib/session-reducer";
+import { useProfile } from "@/lib/profile";
+import { parseRecipeFile, slugify, toJsonLd, toMarkdown, toWireRecipe } from "@/lib/recipe-formats";
+import {
+  filterChoices,
+  filterDishOptions,
+  NO_FILTERS,
+  toWireDishOption,
+  toWireFilters,
+  type SuggestionFilters,
+} from "@/lib/suggestions";
+import { captureStill, sendSnapshot } from "@/lib/snapshot";
+import { formatTimeLeft, toWireTimer } from "@/lib/timers";
+import { CHAT_TOPIC, mergeTranscript } from "@/lib/transcript";
+import type { DishOption, GroceryItem, Recipe, Snapshot, Timer, TranscriptEntry } from "@/lib/types";
 
-interface Timer {
-  id: number;
-  label: string;
-  endsAt: number;
-  duration: number;
-}
-
-interface Recipe {
-  title: string;
-  servings: number;
-  prepTimeMinutes: number;
-  ingredients: string[];
-  steps: string[];
-  currentStep?: number; // 1-based
-  tutorialUrl?: string;
-  tutorialTitle?: string;
-  tutorialSource?: string;
-  ogImage?: string;
-  ogTitle?: string;
-  ogDescription?: string;
-}
-
-interface DishOption {
-  title: string;
-  description: string;
-}
-
-interface GroceryItem {
-  recipe: string;
-  ingredients: string[];
-  checked: string[];
-}
+type TimerChangeHandler = (event: TimerEvent, timer: Timer, timers: Timer[]) => void;
 
-function useTimers() {
-  const [timers, setTimers] = useState<Timer[]>([]);
+// The session UI state, changed only through lib/session-reducer so live
+// messages and event log replays agree. Also runs the timers: ticks the
+// countdowns and sounds the alarm when one runs out. `onTimerChange` hears
+// about timers changed here, by hand or by running out, but not about
+// changes that came in as messages, which the sender already knows about.
+function useSessionView(initialView: SessionView, onTimerChange?: TimerChangeHandler) {
+  const [view, setView] = useState<SessionView>(initialView);
   const [, setTick] = useState(0);
-  const nextId = useRef(0);
+  const viewRef = useRef<SessionView>(initialView);
   const audioRef = useRef<AudioContext | null>(null);
+  const onChangeRef = useRef(onTimerChange);
 
-  // Tick every second to update countdown displays
   useEffect(() => {
-    const interval = setInterval(() => setTick((t) => t + 1), 1000);
-    return () => clearInterval(interval);
+    onChangeRef.current = onTimerChange;
+  }, [onTimerChange]);
+
+  // Apply a change synchronously so back-to-back messages see each other
+  const apply = useCallback((reduce: (state: SessionView, now: number) => Reduced): Reduced => {
+    const result = reduce(viewRef.current, Date.now());
+    if (!result.state) return result;
+    viewRef.current = result.state;
+    setView(result.state);
+    return result;
   }, []);
 
-  // Check for expired timers
-  useEffect(() => {
-    const now = Date.now();
-    const expired = timers.filter((t) => t.endsAt <= now);
-    if (expired.length > 0) {
-      expired.forEach((t) => playAlarm(t.label));
-      setTimers((prev) => prev.filter((t) => t.endsAt > now));
+  const applyTimer = useCallback((action: TimerAction, now: number): Reduced => {
+    const result = apply((state) => reduceTimer(state, action, now));
+    if (result.timerChange) {
+      onChangeRef.current?.(result.timerChange.event, result.timerChange.timer, result.state.timers);
     }
-  }, [timers, /* ticked by setTick */]);
+    return result;
+  }, [apply]);
+
+  // Changes made by hand that don't go through a message
+  const updateView = useCallback((change: Partial<SessionView>) => {
+    apply((state) => ({ state: { ...state, ...change } }));
+  }, [apply]);
 
   const playAlarm = useCallback((label: string) => {
     if (!audioRef.current) {
@@ -94,81 +170,130 @@ function useTimers() {
     }
   }, []);
 
-  const addTimer = useCallback((label: string, durationSeconds: number) => {
+  // Tick every second to update countdown displays and fire expired timers
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setTick((t) => t + 1);
+      const now = Date.now();
+      for (const timer of viewRef.current.timers) {
+        if (timer.pausedAt === undefined && timer.endsAt <= now) {
+          playAlarm(timer.label);
+          applyTimer({ type: "finish", id: timer.id }, now);
+        }
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [playAlarm, applyTimer]);
+
+  const dispatchTimer = useCallback((action: TimerAction) => {
     // Request notification permission on first timer
-    if (typeof Notification !== "undefined" && Notification.permission === "default") {
+    if (action.type === "start" && typeof Notification !== "undefined" && Notification.permission === "default") {
       Notification.requestPermission();
     }
-    setTimers((prev) => [
-      ...prev,
-      {
-        id: nextId.current++,
-        label,
-        endsAt: Date.now() + durationSeconds * 1000,
-        duration: durationSeconds,
-      },
-    ]);
-  }, []);
-
-  const dismissTimer = useCallback((id: number) => {
-    setTimers((prev) => prev.filter((t) => t.id !== id));
-  }, []);
+    return applyTimer(action, Date.now());
+  }, [applyTimer]);
 
-  return { timers, addTimer, dismissTimer };
+  return { view, apply, updateView, dispatchTimer };
 }
 
-function formatTimeLeft(endsAt: number): string {
-  const left = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
-  const m = Math.floor(left / 60);
-  const s = left % 60;
-  return `${m}:${s.toString().padStart(2, "0")}`;
-}
-
-function TimerDisplay({ timers, onDismiss }: { timers: Timer[]; onDismiss: (id: number) => void }) {
+function TimerDisplay({
+  timers,
+  onPause,
+  onResume,
+  onExtend,
+  onCancel,
+}: {
+  timers: Timer[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onExtend: (id: string, seconds: number) => void;
+  onCancel: (id: string) => void;
+}) {
   if (timers.length === 0) return null;
 
   return (
     <div className="w-full max-w-md flex flex-col gap-2">
-      {timers.map((timer) => (
-        <div
-          key={timer.id}
-          className="flex items-center justify-between bg-zinc-800 rounded-lg px-4 py-3 border border-zinc-700"
-        >
-          <div className="flex items-center gap-3">
-            <span className="text-orange-400 text-xl">⏱</span>
-            <span className="text-zinc-200">{timer.label}</span>
-          </div>
-          <div className="flex items-center gap-3">
-            <span className="text-2xl font-mono text-white tabular-nums">
-              {formatTimeLeft(timer.endsAt)}
-            </span>
-            <button
-              onClick={() => onDismiss(timer.id)}
-              className="text-zinc-500 hover:text-zinc-300 text-sm"
-            >
-              ✕
-            </button>
+      {timers.map((timer) => {
+        const isPaused = timer.pausedAt !== undefined;
+        return (
+          <div
+            key={timer.id}
+            className="flex items-center justify-between bg-zinc-800 rounded-lg px-4 py-3 border border-zinc-700"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="text-orange-400 text-xl">⏱</span>
+              <span className="text-zinc-200 truncate">{timer.label}</span>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span
+                className={`text-2xl font-mono tabular-nums ${
+                  isPaused ? "text-zinc-500 animate-pulse" : "text-white"
+                }`}
+              >
+                {formatTimeLeft(timer)}
+              </span>
+              <button
+                onClick={() => (isPaused ? onResume(timer.id) : onPause(timer.id))}
+                className="text-zinc-400 hover:text-zinc-200 text-sm w-7"
+                title={isPaused ? "Resume timer" : "Pause timer"}
+              >
+                {isPaused ? "▶" : "⏸"}
+              </button>
+              <button
+                onClick={() => onExtend(timer.id, 60)}
+                className="text-zinc-400 hover:text-zinc-200 text-xs font-medium"
+                title="Add one minute"
+              >
+                +1m
+              </button>
+              <button
+                onClick={() => onCancel(timer.id)}
+                className="text-zinc-500 hover:text-zinc-300 text-sm"
+                title="Cancel timer"
+              >
+                ✕
+              </button>
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 }
 
-function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }) {
+function RecipeCard({
+  recipe,
+  onClose,
+  onServingsChange,
+  onStepSelect,
+  onStartTimer,
+  onRequestSubstitution,
+  onCookingMode,
+}: {
+  recipe: Recipe;
+  onClose: () => void;
+  onServingsChange: (servings: number) => void;
+  onStepSelect: (stepNumber: number) => void;
+  onStartTimer: (stepNumber: number, duration: StepDuration) => void;
+  onRequestSubstitution: (conflicts: RecipeConflict[]) => void;
+  onCookingMode: () => void;
+}) {
   const [expanded, setExpanded] = useState(false);
   const [activeTab, setActiveTab] = useState<"ingredients" | "steps">("steps");
-  const stepRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const [exportOpen, setExportOpen] = useState(false);
+  const cookbook = useCookbook();
+  const servings = recipe.scaledServings ?? recipe.servings;
+  const scale = servings / recipe.servings;
+  const savedEntry = cookbook ? findCookbookEntry(cookbook, recipe) : undefined;
+  const isSaved = savedEntry !== undefined;
+  const profile = useProfile();
+  const conflicts = useMemo(() => recipeConflicts(recipe.ingredients, profile), [recipe.ingredients, profile]);
 
-  // Auto-scroll to the current step and switch to steps tab
+  // Switch to the steps tab when the current step changes (StepList scrolls to it)
   useEffect(() => {
     if (recipe.currentStep && recipe.currentStep >= 1) {
       setActiveTab("steps");
       if (!expanded) setExpanded(true);
-      const el = stepRefs.current[recipe.currentStep - 1];
-      if (el) {
-        el.scrollIntoView({ behavior: "smooth", block: "nearest" });
-      }
     }
   }, [recipe.currentStep]);
 
@@ -193,7 +318,7 @@ function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }
                 {recipe.prepTimeMinutes} min
               </span>
               <span className="text-zinc-600">|</span>
-              <span className="text-xs text-zinc-400">{recipe.servings} serving{recipe.servings !== 1 ? "s" : ""}</span>
+              <span className="text-xs text-zinc-400">{servings} serving{servings !== 1 ? "s" : ""}</span>
               <span className="text-zinc-600">|</span>
               <span className="text-xs text-zinc-400">{recipe.ingredients.length} ingredients</span>
               {recipe.tutorialUrl && (
@@ -202,6 +327,12 @@ function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }
                   <span className="text-xs text-orange-400">Tutorial</span>
                 </>
               )}
+              {conflicts.length > 0 && (
+                <>
+                  <span className="text-zinc-600">|</span>
+                  <span className="text-xs text-red-400">⚠ {conflicts.length} conflict{conflicts.length !== 1 ? "s" : ""}</span>
+                </>
+              )}
             </div>
           </div>
           <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-zinc-500 group-hover:text-orange-400 transition-colors shrink-0 ml-3">
@@ -235,7 +366,24 @@ function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }
                   <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
                   <path d="M16 3.13a4 4 0 0 1 0 7.75" />
                 </svg>
-                {recipe.servings} serving{recipe.servings !== 1 ? "s" : ""}
+                <button
+                  onClick={() => onServingsChange(servings - 1)}
+                  disabled={servings <= 1}
+                  className="w-5 h-5 rounded-full bg-zinc-700 text-zinc-200 leading-none hover:bg-zinc-600 disabled:opacity-40 transition-colors"
+                  title="Fewer servings"
+                >
+                  −
+                </button>
+                <span className={scale !== 1 ? "text-orange-300" : undefined}>
+                  {servings} serving{servings !== 1 ? "s" : ""}
+                </span>
+                <button
+                  onClick={() => onServingsChange(servings + 1)}
+                  className="w-5 h-5 rounded-full bg-zinc-700 text-zinc-200 leading-none hover:bg-zinc-600 transition-colors"
+                  title="More servings"
+                >
+                  +
+                </button>
               </span>
               <span className="flex items-center gap-1.5 text-sm text-zinc-400">
                 {recipe.ingredients.length} ingredients
@@ -281,6 +429,38 @@ function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }
             )}
           </div>
           <div className="flex items-center gap-1 shrink-0">
+            <button
+              onClick={() => (savedEntry ? removeRecipe(savedEntry.id) : saveRecipe(recipe))}
+              className={`transition-colors p-1 ${isSaved ? "text-orange-400" : "text-zinc-500 hover:text-zinc-300"}`}
+              title={isSaved ? "Remove from cookbook" : "Save to cookbook"}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill={isSaved ? "currentColor" : "none"} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setExportOpen((o) => !o)}
+              className={`transition-colors p-1 ${exportOpen ? "text-orange-400" : "text-zinc-500 hover:text-zinc-300"}`}
+              title="Export recipe"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                <polyline points="7 10 12 15 17 10" />
+                <line x1="12" x2="12" y1="15" y2="3" />
+              </svg>
+            </button>
+            <button
+              onClick={onCookingMode}
+              className="text-zinc-500 hover:text-orange-400 transition-colors p-1"
+              title="Cooking mode"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M8 3H5a2 2 0 0 0-2 2v3" />
+                <path d="M21 8V5a2 2 0 0 0-2-2h-3" />
+                <path d="M3 16v3a2 2 0 0 0 2 2h3" />
+                <path d="M16 21h3a2 2 0 0 0 2-2v-3" />
+              </svg>
+            </button>
             <button
               onClick={() => setExpanded(false)}
               className="text-zinc-500 hover:text-zinc-300 transition-colors p-1"
@@ -304,6 +484,38 @@ function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }
         </div>
       </div>
 
+      {exportOpen && (
+        <div className="flex items-center gap-2 px-5 py-2.5 border-b border-zinc-700/50 text-xs">
+          <span className="text-zinc-500 mr-1">Export as</span>
+          <button
+            onClick={() =>
+              downloadFile(
+                `${slugify(recipe.title)}.jsonld`,
+                JSON.stringify(toJsonLd(recipe), null, 2),
+                "application/ld+json",
+              )
+            }
+            className="rounded-md bg-zinc-700/60 px-2.5 py-1 text-zinc-200 hover:bg-zinc-600 transition-colors"
+          >
+            JSON-LD
+          </button>
+          <button
+            onClick={() => downloadFile(`${slugify(recipe.title)}.md`, toMarkdown(recipe), "text/markdown")}
+            className="rounded-md bg-zinc-700/60 px-2.5 py-1 text-zinc-200 hover:bg-zinc-600 transition-colors"
+          >
+            Markdown
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="rounded-md bg-zinc-700/60 px-2.5 py-1 text-zinc-200 hover:bg-zinc-600 transition-colors"
+          >
+            Print
+          </button>
+        </div>
+      )}
+      <PrintableRecipe recipe={recipe} />
+      <ConflictBanner conflicts={conflicts} onRequestSubstitution={onRequestSubstitution} />
+
       {/* Section Tabs */}
       <div className="flex border-b border-zinc-700/50">
         <button
@@ -328,65 +540,14 @@ function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }
         </button>
       </div>
 
-      {/* Ingredients Section */}
-      {activeTab === "ingredients" && (
-        <div className="px-5 py-4">
-          <ul className="space-y-2">
-            {recipe.ingredients.map((ingredient, i) => (
-              <li key={i} className="flex items-start gap-3 text-sm">
-                <span className="mt-1 w-1.5 h-1.5 rounded-full bg-orange-400 shrink-0" />
-                <span className="text-zinc-200">{ingredient}</span>
-              </li>
-            ))}
-          </ul>
-        </div>
-      )}
-
-      {/* Steps Section */}
+      {activeTab === "ingredients" && <IngredientList recipe={recipe} />}
       {activeTab === "steps" && (
-        <div className="px-5 py-4">
-          <ol className="space-y-3">
-            {recipe.steps.map((step, i) => {
-              const stepNum = i + 1;
-              const isCurrent = recipe.currentStep === stepNum;
-              const isPast = recipe.currentStep ? stepNum < recipe.currentStep : false;
-              return (
-                <li
-                  key={i}
-                  ref={(el) => { stepRefs.current[i] = el; }}
-                  className={`flex gap-3 text-sm rounded-lg px-3 py-2.5 transition-all duration-300 ${
-                    isCurrent
-                      ? "bg-orange-600/15 border border-orange-600/30"
-                      : isPast
-                        ? "opacity-50"
-                        : ""
-                  }`}
-                >
-                  <span
-                    className={`flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold shrink-0 mt-0.5 transition-colors ${
-                      isCurrent
-                        ? "bg-orange-500 text-white"
-                        : isPast
-                          ? "bg-zinc-700 text-zinc-400"
-                          : "bg-orange-600/20 text-orange-400"
-                    }`}
-                  >
-                    {isPast ? (
-                      <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
-                        <polyline points="20 6 9 17 4 12" />
-                      </svg>
-                    ) : (
-                      stepNum
-                    )}
-                  </span>
-                  <span className={`leading-relaxed ${isCurrent ? "text-white font-medium" : "text-zinc-200"}`}>
-                    {step}
-                  </span>
-                </li>
-              );
-            })}
-          </ol>
-        </div>
+        <StepList
+          steps={recipe.steps}
+          currentStep={recipe.currentStep}
+          onStepSelect={onStepSelect}
+          onStartTimer={onStartTimer}
+        />
       )}
     </div>
   );
@@ -395,62 +556,260 @@ function RecipeCard({ recipe, onClose }: { recipe: Recipe; onClose: () => void }
 function DishSuggestions({
   options,
   onSelect,
+  onMoreLikeThis,
+  onRetry,
 }: {
   options: DishOption[];
   onSelect: (title: string) => void;
+  onMoreLikeThis: (title: string, filters: SuggestionFilters) => void;
+  onRetry: (filters: SuggestionFilters) => void;
 }) {
+  const [filters, setFilters] = useState<SuggestionFilters>(NO_FILTERS);
+  // Waiting on the agent until a new set of options replaces this one
+  const [pendingFor, setPendingFor] = useState<DishOption[] | null>(null);
+  const pending = pendingFor === options;
+  const choices = filterChoices(options);
+  const visible = filterDishOptions(options, filters);
+  const withSelected = (values: string[], selected?: string) =>
+    selected && !values.includes(selected) ? [...values, selected] : values;
+
+  const chip = (active: boolean) =>
+    `rounded-full border px-2.5 py-0.5 text-xs capitalize transition-colors ${
+      active
+        ? "border-orange-600/60 bg-orange-600/20 text-orange-200"
+        : "border-zinc-700 text-zinc-400 hover:text-zinc-200"
+    }`;
+
   return (
     <div className="w-full max-w-md flex flex-col gap-2">
       <p className="text-sm text-zinc-400 font-medium px-1">Pick a dish or say your choice:</p>
-      {options.map((option, i) => (
-        <button
-          key={i}
-          onClick={() => onSelect(option.title)}
-          className="w-full text-left bg-zinc-800 hover:bg-zinc-750 rounded-xl px-4 py-3.5 border border-zinc-700 hover:border-orange-600/50 transition-all group"
-        >
-          <div className="flex items-center justify-between">
-            <div className="flex-1 min-w-0">
-              <h3 className="text-base font-semibold text-white group-hover:text-orange-50 transition-colors">
-                {option.title}
-              </h3>
-              <p className="text-sm text-zinc-400 mt-0.5 line-clamp-2">{option.description}</p>
-            </div>
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              width="18"
-              height="18"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              className="text-zinc-600 group-hover:text-orange-400 transition-colors shrink-0 ml-3"
+
+      {/* Filters, offered only for attributes the agent actually sent */}
+      {(choices.cuisines.length > 1 || choices.difficulties.length > 1 || choices.dietaryTags.length > 0 || choices.hasTimes) && (
+        <div className="flex flex-wrap items-center gap-1.5 px-1">
+          {withSelected(choices.cuisines, filters.cuisine).map((cuisine) => (
+            <button
+              key={cuisine}
+              onClick={() => setFilters({ ...filters, cuisine: filters.cuisine === cuisine ? undefined : cuisine })}
+              className={chip(filters.cuisine === cuisine)}
             >
-              <polyline points="9 18 15 12 9 6" />
-            </svg>
+              {cuisine}
+            </button>
+          ))}
+          {choices.hasTimes &&
+            [20, 30, 45].map((minutes) => (
+              <button
+                key={minutes}
+                onClick={() =>
+                  setFilters({ ...filters, maxTimeMinutes: filters.maxTimeMinutes === minutes ? undefined : minutes })
+                }
+                className={chip(filters.maxTimeMinutes === minutes)}
+              >
+                ≤ {minutes} min
+              </button>
+            ))}
+          {withSelected([...choices.difficulties], filters.difficulty).map((difficulty) => (
+            <button
+              key={difficulty}
+              onClick={() =>
+                setFilters({
+                  ...filters,
+                  difficulty: filters.difficulty === difficulty ? undefined : (difficulty as SuggestionFilters["difficulty"]),
+                })
+              }
+              className={chip(filters.difficulty === difficulty)}
+            >
+              {difficulty}
+            </button>
+          ))}
+          {[...new Set([...choices.dietaryTags, ...filters.dietaryTags])].map((tag) => {
+            const active = filters.dietaryTags.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() =>
+                  setFilters({
+                    ...filters,
+                    dietaryTags: active ? filters.dietaryTags.filter((t) => t !== tag) : [...filters.dietaryTags, tag],
+                  })
+                }
+                className={chip(active)}
+              >
+                {tag}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {visible.length === 0 && (
+        <p className="text-sm text-zinc-500 px-1">
+          Nothing here matches.{" "}
+          <button onClick={() => setFilters(NO_FILTERS)} className="text-orange-400 hover:text-orange-300">
+            Clear filters
+          </button>
+        </p>
+      )}
+
+      {visible.map((option) => {
+        const meta = [
+          option.cuisine,
+          option.timeMinutes !== undefined ? `${option.timeMinutes} min` : undefined,
+          option.difficulty,
+        ].filter(Boolean);
+        return (
+          <div
+            key={option.title}
+            className="bg-zinc-800 hover:bg-zinc-750 rounded-xl border border-zinc-700 hover:border-orange-600/50 transition-all group overflow-hidden"
+          >
+            <button onClick={() => onSelect(option.title)} className="w-full text-left flex items-stretch">
+              {option.imageUrl && (
+                <img src={option.imageUrl} alt="" className="w-20 object-cover shrink-0 bg-zinc-700" />
+              )}
+              <div className="flex-1 min-w-0 flex items-center px-4 py-3.5">
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-base font-semibold text-white group-hover:text-orange-50 transition-colors">
+                    {option.title}
+                  </h3>
+                  <p className="text-sm text-zinc-400 mt-0.5 line-clamp-2">{option.description}</p>
+                  {meta.length > 0 && (
+                    <p className="text-xs text-zinc-500 mt-1 capitalize">{meta.join(" · ")}</p>
+                  )}
+                  {option.dietaryTags && option.dietaryTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {option.dietaryTags.map((tag) => (
+                        <span key={tag} className="rounded-full bg-emerald-900/40 px-2 py-0.5 text-[10px] text-emerald-300">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="18"
+                  height="18"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="text-zinc-600 group-hover:text-orange-400 transition-colors shrink-0 ml-3"
+                >
+                  <polyline points="9 18 15 12 9 6" />
+                </svg>
+              </div>
+            </button>
+            <div className="flex justify-end px-4 pb-2 -mt-1">
+              <button
+                onClick={() => {
+                  setPendingFor(options);
+                  onMoreLikeThis(option.title, filters);
+                }}
+                disabled={pending}
+                className="text-xs text-zinc-500 hover:text-orange-400 disabled:opacity-40 transition-colors"
+              >
+                More like this
+              </button>
+            </div>
           </div>
-        </button>
-      ))}
+        );
+      })}
+
+      <button
+        onClick={() => {
+          setPendingFor(options);
+          onRetry(filters);
+        }}
+        disabled={pending}
+        className="self-center text-sm text-zinc-500 hover:text-zinc-300 disabled:opacity-40 transition-colors"
+      >
+        {pending ? "Asking for new ideas…" : "None of these, try again"}
+      </button>
     </div>
   );
 }
 
+function GroceryCheckRow({
+  label,
+  detail,
+  warning,
+  isChecked,
+  onClick,
+}: {
+  label: string;
+  detail?: string;
+  warning?: string; // profile conflict, e.g. "ghee — vegan"
+  isChecked: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="flex items-center gap-3 w-full text-left py-1 group/item"
+    >
+      <span
+        className={`w-5 h-5 rounded border flex items-center justify-center shrink-0 transition-colors ${
+          isChecked
+            ? "bg-emerald-600 border-emerald-600"
+            : "border-zinc-600 group-hover/item:border-emerald-500"
+        }`}
+      >
+        {isChecked && (
+          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
+            <polyline points="20 6 9 17 4 12" />
+          </svg>
+        )}
+      </span>
+      <span className="min-w-0">
+        <span
+          className={`block text-sm transition-colors ${
+            isChecked
+              ? "text-zinc-500 line-through"
+              : "text-zinc-200 group-hover/item:text-white"
+          }`}
+        >
+          {label}
+          {warning && <span className="ml-1.5 text-red-400" title={warning}>⚠</span>}
+        </span>
+        {detail && <span className="block text-xs text-zinc-500 truncate">{detail}</span>}
+        {warning && !isChecked && <span className="block text-xs text-red-400/90 truncate">{warning}</span>}
+      </span>
+    </button>
+  );
+}
+
 function GroceryList({
   items,
   onToggle,
+  onSetChecked,
+  onRequestSubstitution,
   forceExpanded,
   onClose,
 }: {
   items: GroceryItem[];
   onToggle: (recipeIdx: number, ingredient: string) => void;
+  onSetChecked: (refs: GroceryRef[], checked: boolean) => void;
+  onRequestSubstitution: (conflicts: RecipeConflict[]) => void;
   forceExpanded?: boolean;
   onClose: () => void;
 }) {
   const [expanded, setExpanded] = useState(false);
+  const [view, setView] = useState<"recipe" | "combined">("recipe");
+  const [exportOpen, setExportOpen] = useState(false);
   const isExpanded = forceExpanded || expanded;
   const totalIngredients = items.reduce((sum, g) => sum + g.ingredients.length, 0);
   const totalChecked = items.reduce((sum, g) => sum + g.checked.length, 0);
+  const profile = useProfile();
+  const conflicts = useMemo(
+    () => recipeConflicts([...new Set(items.flatMap((g) => g.ingredients))], profile),
+    [items, profile],
+  );
+  const warningFor = (ingredient: string) => {
+    const match = conflicts.find((c) => c.ingredient === ingredient);
+    return match && describeConflicts(match.conflicts);
+  };
 
   // Sync forceExpanded into local state
   useEffect(() => {
@@ -505,192 +864,515 @@ function GroceryList({
           <h3 className="text-lg font-bold text-white">Grocery List</h3>
           <span className="text-xs text-zinc-400">{totalChecked}/{totalIngredients}</span>
         </div>
-        <button
-          onClick={() => { setExpanded(false); onClose(); }}
-          className="text-zinc-500 hover:text-zinc-300 transition-colors p-1"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            <polyline points="18 15 12 9 6 15" />
-          </svg>
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setExportOpen((o) => !o)}
+            className={`transition-colors p-1 ${exportOpen ? "text-emerald-400" : "text-zinc-500 hover:text-zinc-300"}`}
+            title="Share or export list"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M4 12v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8" />
+              <polyline points="16 6 12 2 8 6" />
+              <line x1="12" x2="12" y1="2" y2="15" />
+            </svg>
+          </button>
+          <button
+            onClick={() => { setExpanded(false); onClose(); }}
+            className="text-zinc-500 hover:text-zinc-300 transition-colors p-1"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="18 15 12 9 6 15" />
+            </svg>
+          </button>
+        </div>
       </div>
-      <div className="px-5 py-4 space-y-4">
-        {items.map((group, gIdx) => (
-          <div key={gIdx}>
-            <h4 className="text-sm font-medium text-emerald-400 mb-2">{group.recipe}</h4>
-            <ul className="space-y-1.5">
-              {group.ingredients.map((ingredient, iIdx) => {
-                const isChecked = group.checked.includes(ingredient);
-                return (
+      {exportOpen && <GroceryExportPanel items={items} view={view} />}
+      <ConflictBanner conflicts={conflicts} onRequestSubstitution={onRequestSubstitution} />
+      <div className="flex border-b border-zinc-700/50">
+        {(["recipe", "combined"] as const).map((v) => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${
+              view === v
+                ? "text-emerald-400 border-b-2 border-emerald-400"
+                : "text-zinc-400 hover:text-zinc-200"
+            }`}
+          >
+            {v === "recipe" ? "By recipe" : "Combined"}
+          </button>
+        ))}
+      </div>
+      {view === "recipe" ? (
+        <div className="px-5 py-4 space-y-4">
+          {items.map((group, gIdx) => (
+            <div key={gIdx}>
+              <h4 className="text-sm font-medium text-emerald-400 mb-2">{group.recipe}</h4>
+              <ul className="space-y-1.5">
+                {group.ingredients.map((ingredient, iIdx) => (
                   <li key={iIdx}>
-                    <button
+                    <GroceryCheckRow
+                      label={ingredient}
+                      warning={warningFor(ingredient)}
+                      isChecked={group.checked.includes(ingredient)}
                       onClick={() => onToggle(gIdx, ingredient)}
-                      className="flex items-center gap-3 w-full text-left py-1 group/item"
-                    >
-                      <span
-                        className={`w-5 h-5 rounded border flex items-center justify-center shrink-0 transition-colors ${
-                          isChecked
-                            ? "bg-emerald-600 border-emerald-600"
-                            : "border-zinc-600 group-hover/item:border-emerald-500"
-                        }`}
-                      >
-                        {isChecked && (
-                          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
-                            <polyline points="20 6 9 17 4 12" />
-                          </svg>
-                        )}
-                      </span>
-                      <span
-                        className={`text-sm transition-colors ${
-                          isChecked
-                            ? "text-zinc-500 line-through"
-                            : "text-zinc-200 group-hover/item:text-white"
-                        }`}
-                      >
-                        {ingredient}
-                      </span>
-                    </button>
+                    />
                   </li>
-                );
-              })}
-            </ul>
-          </div>
-        ))}
-      </div>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="px-5 py-4 space-y-4">
+          {consolidateGroceryList(items).map(({ section, items: sectionItems }) => (
+            <div key={section}>
+              <h4 className="text-sm font-medium text-emerald-400 mb-2">{section}</h4>
+              <ul className="space-y-1.5">
+                {sectionItems.map((item) => (
+                  <li key={item.key}>
+                    <GroceryCheckRow
+                      label={item.amount ? `${item.amount} ${item.name}` : item.name}
+                      detail={
+                        item.sources.length > 1
+                          ? item.sources.map((source) => source.recipe).join(", ")
+                          : undefined
+                      }
+                      warning={item.sources.map((source) => warningFor(source.ingredient)).find(Boolean)}
+                      isChecked={item.checked}
+                      onClick={() => onSetChecked(item.sources, !item.checked)}
+                    />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
 
-function VoiceAssistantUI() {
-  const { state, audioTrack } = useVoiceAssistant();
+// Debugging hooks for every data-channel message in either direction: the
+// event log and the diagnostics overlay's message rates
+const observeDataMessage: DataMessageObserver = (event, payload) => {
+  recordEvent(event, payload);
+  countDataMessage(event.direction, event.topic, payload.byteLength);
+};
+
+function VoiceAssistantUI({
+  resume,
+  initialSession,
+  joinCode,
+  onRestart,
+  simulated = false,
+}: {
+  resume?: string;
+  initialSession: SessionSnapshot | null;
+  joinCode?: string;
+  onRestart: () => void;
+  simulated?: boolean; // driven by the dev simulator; nothing is saved
+}) {
+  const { state, audioTrack, agent } = useVoiceAssistant();
   const localParticipant = useLocalParticipant();
   const room = useRoomContext();
-  const { timers, addTimer, dismissTimer } = useTimers();
-  const [cameraRequest, setCameraRequest] = useState(false);
-  const [recipe, setRecipe] = useState<Recipe | null>(null);
-  const [dishSuggestions, setDishSuggestions] = useState<DishOption[]>([]);
-  const [groceryList, setGroceryList] = useState<GroceryItem[]>([]);
+  const connectionState = useConnectionState();
+  const eventLogEnabled = useEventLogEnabled();
+  const reconnecting =
+    connectionState === ConnectionState.Reconnecting || connectionState === ConnectionState.SignalReconnecting;
+
+  // Turn timings are collected all session so the overlay has history when opened
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false);
+  const userSpeaking = useIsSpeaking(localParticipant.localParticipant);
+  useEffect(() => resetDiagnostics(), []);
+  useEffect(() => setDataMessageObserver(observeDataMessage), []);
+  useEffect(() => recordAgentState(state), [state]);
+  useEffect(() => recordUserSpeaking(userSpeaking), [userSpeaking]);
+
+  // Agent dispatch can silently fail; don't leave the user talking to nobody
+  const [agentTimedOut, setAgentTimedOut] = useState(false);
+  const [agentWaitStart, setAgentWaitStart] = useState(0);
+  useEffect(() => {
+    if (agent || connectionState !== ConnectionState.Connected) return;
+    const timeout = setTimeout(() => setAgentTimedOut(true), AGENT_JOIN_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [agent, connectionState, agentWaitStart]);
+
+  // Mirror our timer changes to the agent so it can answer "how long is left?"
+  const publishTimerChange = useCallback<TimerChangeHandler>((event, timer, all) => {
+    // Every UI runs the agent's timers down at the same moment; the host reports it
+    if (event === "finished" && room.localParticipant.attributes.role === "guest") return;
+    const now = Date.now();
+    publishClientMessage(room.localParticipant, {
+      type: "timer_state",
+      event,
+      timer_id: timer.id,
+      timers: all.map((t) => toWireTimer(t, now)),
+    }).catch((err) => console.warn("[timers] failed to publish timer state", err));
+  }, [room]);
+
+  const { view, apply, updateView, dispatchTimer } = useSessionView(
+    {
+      ...EMPTY_SESSION_VIEW,
+      recipe: initialSession?.recipe ?? null,
+      dishSuggestions: initialSession?.dishSuggestions ?? [],
+      groceryList: initialSession?.groceryList ?? [],
+      timers: initialSession?.timers ?? [],
+    },
+    publishTimerChange,
+  );
+  const { recipe, dishSuggestions, chosenDish, groceryList, timers, cameraRequested } = view;
+  const pauseTimer = useCallback((id: string) => dispatchTimer({ type: "pause", id }), [dispatchTimer]);
+  const resumeTimer = useCallback((id: string) => dispatchTimer({ type: "resume", id }), [dispatchTimer]);
+  const cancelTimer = useCallback((id: string) => dispatchTimer({ type: "cancel", id }), [dispatchTimer]);
+  const extendTimer = useCallback(
+    (id: string, seconds: number) => dispatchTimer({ type: "extend", id, seconds }),
+    [dispatchTimer],
+  );
   const [groceryListOpen, setGroceryListOpen] = useState(false);
+  const sessionRef = useRef<SessionState | null>(null);
+  const [logId] = useState(() => initialSession?.logId ?? newCookLogId());
+  const [transcriptOpen, setTranscriptOpen] = useState(false);
+  const [typedMessages, setTypedMessages] = useState<TranscriptEntry[]>([]);
+  const transcriptions = useTranscriptions();
+  const localIdentity = localParticipant.localParticipant.identity;
+  const participants = useParticipants();
+  const [cookTogetherOpen, setCookTogetherOpen] = useState(false);
+  const otherCooks = useMemo(
+    () => new Map(
+      participants
+        .filter((p) => !p.isLocal && !p.isAgent)
+        .map((p) => [p.identity, p.name || "Another cook"]),
+    ),
+    [participants],
+  );
+  const transcript = useMemo(
+    () => mergeTranscript(initialSession?.transcript ?? [], transcriptions, typedMessages, localIdentity, otherCooks),
+    [initialSession, transcriptions, typedMessages, localIdentity, otherCooks],
+  );
+
+  // Typed fallback for when speaking isn't possible
+  const sendTypedMessage = useCallback(async (text: string) => {
+    const info = await room.localParticipant.sendText(text, { topic: CHAT_TOPIC });
+    setTypedMessages((prev) => [
+      ...prev,
+      { id: info.id, role: "user", text, timestamp: info.timestamp, typed: true, final: true },
+    ]);
+  }, [room]);
+
+  // Persist the session on every change so a reload or dropped connection can
+  // resume it; lib/session batches the writes
+  useEffect(() => {
+    // Only the host gets a resume token; guests rejoin through their invite so
+    // they come back as guests
+    const rejoin = resume ? { resume } : { joinCode };
+    const session: SessionState = { ...rejoin, logId, recipe, groceryList, dishSuggestions, timers, transcript };
+    sessionRef.current = session;
+    if (!simulated) saveSession(session);
+  }, [resume, joinCode, logId, recipe, groceryList, dishSuggestions, timers, transcript, simulated]);
+
+  useCookLogRecorder(simulated ? null : logId, { recipe, timers, chosenDish });
+
+  // Offer notes from earlier cooks of the same dish, once per dish
+  const recipeTitle = recipe?.title;
+  const [notesHandledFor, setNotesHandledFor] = useState<string | null>(null);
+  const pastNotes = useMemo(
+    () => (recipeTitle ? pastNotesFor(recipeTitle, logId) : []),
+    [recipeTitle, logId],
+  );
+  const sendPastNotes = useCallback(() => {
+    if (!recipeTitle) return;
+    setNotesHandledFor(recipeTitle);
+    publishClientMessage(room.localParticipant, {
+      type: "cook_notes",
+      recipe_title: recipeTitle,
+      notes: pastNotes.map((entry) => ({
+        cooked_at: new Date(entry.startedAt).toISOString(),
+        rating: entry.rating,
+        text: entry.notes?.trim() || undefined,
+      })),
+    }).catch((err) => console.warn("[cook-log] failed to publish notes", err));
+  }, [room, recipeTitle, pastNotes]);
+
+  // Bring a (re)joining agent, or a cook who joins late, up to speed with
+  // whatever state we already have
+  useEffect(() => {
+    const publishSessionState = (destinationIdentities?: string[]) => {
+      const session = sessionRef.current;
+      if (!session || isEmptySession(session)) return;
+      const now = Date.now();
+      publishClientMessage(room.localParticipant, {
+        type: "session_state",
+        recipe: session.recipe ? toWireRecipe(session.recipe) : null,
+        grocery_list: toWireGroceryList(session.groceryList),
+        dish_suggestions: session.dishSuggestions.map(toWireDishOption),
+        timers: session.timers.map((t) => toWireTimer(t, now)),
+        recent_transcript: session.transcript.slice(-20).map(({ role, text }) => ({ role, text })),
+      }, destinationIdentities).catch((err) => console.warn("[session] failed to publish session state", err));
+    };
+
+    // Guests' state came from the host, so the host alone briefs the agent
+    const sendSessionState = () => {
+      if (room.localParticipant.attributes.role === "guest") return;
+      if (![...room.remoteParticipants.values()].some((p) => p.isAgent)) return;
+      publishSessionState();
+    };
+
+    const handleParticipantConnected = (participant: RemoteParticipant) => {
+      if (participant.isAgent) sendSessionState();
+      else publishSessionState([participant.identity]);
+    };
+
+    room.on(RoomEvent.Connected, sendSessionState);
+    room.on(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    return () => {
+      room.off(RoomEvent.Connected, sendSessionState);
+      room.off(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    };
+  }, [room]);
+
+  const setGroceryItemsChecked = useCallback((refs: GroceryRef[], checked: boolean) => {
+    const changed = refs.filter(({ recipeIdx, ingredient }) =>
+      groceryList[recipeIdx].checked.includes(ingredient) !== checked
+    );
+    if (changed.length === 0) return;
+    const items = setGroceryChecked(groceryList, changed, checked);
+    updateView({ groceryList: items });
+    const wireItems = toWireGroceryList(items);
+    for (const { recipeIdx, ingredient } of changed) {
+      publishClientMessage(room.localParticipant, {
+        type: "grocery_item_toggle",
+        recipe: items[recipeIdx].recipe,
+        ingredient,
+        checked,
+        items: wireItems,
+      }).catch((err) => console.warn("[grocery] failed to publish toggle", err));
+    }
+  }, [room, groceryList, updateView]);
 
   const toggleGroceryItem = useCallback((recipeIdx: number, ingredient: string) => {
-    setGroceryList((prev) => {
-      const updated = [...prev];
-      const group = { ...updated[recipeIdx] };
-      if (group.checked.includes(ingredient)) {
-        group.checked = group.checked.filter((c) => c !== ingredient);
-      } else {
-        group.checked = [...group.checked, ingredient];
-      }
-      updated[recipeIdx] = group;
-      return updated;
-    });
+    const checked = !groceryList[recipeIdx].checked.includes(ingredient);
+    setGroceryItemsChecked([{ recipeIdx, ingredient }], checked);
+  }, [groceryList, setGroceryItemsChecked]);
+
+  // Debounced so tapping +/- several times sends one update to the agent
+  const servingsPublishRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const changeServings = useCallback((servings: number) => {
+    if (!recipe || servings < 1) return;
+    updateView({ recipe: { ...recipe, scaledServings: servings === recipe.servings ? undefined : servings } });
+    if (servingsPublishRef.current) clearTimeout(servingsPublishRef.current);
+    servingsPublishRef.current = setTimeout(() => {
+      publishClientMessage(room.localParticipant, {
+        type: "set_servings",
+        servings,
+        original_servings: recipe.servings,
+      }).catch((err) => console.warn("[recipe] failed to publish servings", err));
+    }, 600);
+  }, [room, recipe, updateView]);
+
+  useEffect(() => () => {
+    if (servingsPublishRef.current) clearTimeout(servingsPublishRef.current);
   }, []);
 
-  const selectDish = useCallback(async (title: string) => {
-    setDishSuggestions([]);
-    const msg = JSON.stringify({ type: "select_dish", title });
-    await room.localParticipant.publishData(new TextEncoder().encode(msg), {
-      topic: "dish_selection",
-      reliable: true,
+  // Manual navigation for when a voice command gets lost in kitchen noise
+  const goToStep = useCallback((stepNumber: number) => {
+    if (!recipe || stepNumber < 1 || stepNumber > recipe.steps.length) return;
+    if (stepNumber === recipe.currentStep) return;
+    updateView({ recipe: { ...recipe, currentStep: stepNumber } });
+    publishClientMessage(room.localParticipant, {
+      type: "go_to_step",
+      step_number: stepNumber,
+    }).catch((err) => console.warn("[recipe] failed to publish step change", err));
+  }, [room, recipe, updateView]);
+
+  // One-tap timers from durations in the step text; the agent hears about it via timer_state
+  const startStepTimer = useCallback((stepNumber: number, duration: StepDuration) => {
+    const step = recipe?.steps[stepNumber - 1];
+    if (!step) return;
+    dispatchTimer({
+      type: "start",
+      label: timerLabelFor(step, duration, `Step ${stepNumber}`),
+      durationSeconds: duration.seconds,
+      step: stepNumber,
     });
+  }, [recipe, dispatchTimer]);
+
+  const requestSubstitution = useCallback((conflicts: RecipeConflict[]) => {
+    publishClientMessage(room.localParticipant, {
+      type: "request_substitution",
+      ingredients: conflicts.map(({ ingredient, conflicts: reasons }) => ({
+        ingredient,
+        reasons: [...new Set(reasons.map((r) => r.reason))],
+      })),
+    }).catch((err) => console.warn("[recipe] failed to publish substitution request", err));
   }, [room]);
 
+  const [cookingMode, setCookingMode] = useState(false);
+  const enterCookingMode = useCallback(() => {
+    if (recipe && !recipe.currentStep) goToStep(1);
+    setCookingMode(true);
+  }, [recipe, goToStep]);
+  const exitCookingMode = useCallback(() => setCookingMode(false), []);
+
+  const selectDish = useCallback((title: string) => {
+    const message: ClientMessage = { type: "select_dish", title };
+    apply((state, now) => reducePublishedMessage(state, message, now));
+    publishClientMessage(room.localParticipant, message)
+      .catch((err) => console.warn("[suggestions] failed to publish dish selection", err));
+  }, [room, apply]);
+
+  const requestMoreLikeThis = useCallback((title: string, filters: SuggestionFilters) => {
+    publishClientMessage(room.localParticipant, {
+      type: "more_like_this",
+      title,
+      filters: toWireFilters(filters),
+    }).catch((err) => console.warn("[suggestions] failed to publish more-like-this", err));
+  }, [room]);
+
+  const retrySuggestions = useCallback((filters: SuggestionFilters) => {
+    publishClientMessage(room.localParticipant, {
+      type: "retry_suggestions",
+      rejected: dishSuggestions.map((option) => option.title),
+      filters: toWireFilters(filters),
+    }).catch((err) => console.warn("[suggestions] failed to publish retry", err));
+  }, [room, dishSuggestions]);
+
   // Listen for data messages from the agent
   useEffect(() => {
+    const applyMessage = (msg: AgentMessage) => {
+      const result = apply((state, now) => reduceAgentMessage(state, msg, now));
+      if (!result.state) {
+        console.warn(`[session] ${msg.type} ignored: ${result.detail}`, msg);
+      } else if (msg.type === "grocery_list_show") {
+        setGroceryListOpen(true);
+      }
+    };
+
+    // Other cooks' UIs share what they changed by hand, and their state when we join
+    const applyPeerMessage = (msg: PeerMessage) => {
+      const result = apply((state) => reducePeerMessage(state, msg));
+      if (!result.state) console.warn(`[session] ${msg.type} ignored: ${result.detail}`, msg);
+    };
+
     const handleData = (
       payload: Uint8Array,
-      _participant: any,
-      _kind: any,
-      topic: string | undefined,
+      participant?: RemoteParticipant,
+      _kind?: DataPacket_Kind,
+      topic?: string,
     ) => {
-      try {
-        const msg = JSON.parse(new TextDecoder().decode(payload));
-        if (topic === "timer" && msg.type === "set_timer") {
-          addTimer(msg.label, msg.duration_seconds);
-        } else if (topic === "camera_request" && msg.type === "request_camera") {
-          setCameraRequest(true);
-        } else if (topic === "recipe") {
-          if (msg.type === "recipe_start") {
-            setRecipe({
-              title: msg.title,
-              servings: msg.servings || 1,
-              prepTimeMinutes: msg.prep_time_minutes || 0,
-              ingredients: msg.ingredients || [],
-              steps: msg.steps || [],
-            });
-            setDishSuggestions([]); // clear suggestions when recipe starts
-          } else if (msg.type === "recipe_refresh") {
-            setRecipe((prev) =>
-              prev
-                ? {
-                    ...prev,
-                    title: msg.title || prev.title,
-                    ingredients: msg.ingredients || prev.ingredients,
-                    steps: msg.steps || prev.steps,
-                  }
-                : prev
-            );
-          } else if (msg.type === "step_update") {
-            setRecipe((prev) =>
-              prev ? { ...prev, currentStep: msg.step_number } : prev
-            );
-          } else if (msg.type === "recipe_update") {
-            setRecipe((prev) =>
-              prev
-                ? {
-                    ...prev,
-                    tutorialUrl: msg.tutorial_url,
-                    tutorialTitle: msg.tutorial_title,
-                    tutorialSource: msg.tutorial_source,
-                    ogImage: msg.og_image,
-                    ogTitle: msg.og_title,
-                    ogDescription: msg.og_description,
-                  }
-                : prev
-            );
-          } else if (msg.type === "recipe_end") {
-            setRecipe(null);
-          }
-        } else if (topic === "suggestions" && msg.type === "dish_suggestions") {
-          setDishSuggestions(msg.options || []);
-        } else if (topic === "grocery_list") {
-          if (msg.type === "grocery_list_update" || msg.type === "grocery_list_show") {
-            setGroceryList((msg.items || []).map((item: any) => ({
-              recipe: item.recipe || "",
-              ingredients: item.ingredients || [],
-              checked: item.checked || [],
-            })));
-          }
-          if (msg.type === "grocery_list_show") {
-            setGroceryListOpen(true);
-          }
+      observeDataMessage(
+        { direction: "received", topic, participant: participant?.identity, agent: !participant || participant.isAgent },
+        payload,
+      );
+      if (participant && !participant.isAgent) {
+        const result = decodePeerMessage(payload, topic);
+        reportDecodeResult(result, topic);
+        if (!result.ok || !result.message) return;
+        // Roles come from the token route and participants can't change their
+        // own attributes; only the host's copy of the session is the real one
+        const role = participant.attributes.role;
+        const allowed = result.message.type === "session_state" ? role === "host" : role === "host" || role === "guest";
+        if (!allowed) {
+          console.warn(`[protocol] ignoring ${result.message.type} from ${participant.identity} (role ${role ?? "none"})`);
+          return;
         }
-      } catch {
-        // ignore malformed messages
+        applyPeerMessage(result.message);
+        return;
       }
+      const result = decodeAgentMessage(payload, topic);
+      reportDecodeResult(result, topic);
+      if (result.ok) applyMessage(result.message);
     };
 
     room.on(RoomEvent.DataReceived, handleData);
     return () => {
       room.off(RoomEvent.DataReceived, handleData);
     };
-  }, [room, addTimer]);
+  }, [room, apply]);
 
   const enableCameraFromRequest = useCallback(async () => {
-    setCameraRequest(false);
+    updateView({ cameraRequested: false });
     await room.localParticipant.setCameraEnabled(true, {
       facingMode: "environment",
     });
-  }, [room]);
+  }, [room, updateView]);
 
   const cameraPublication = localParticipant.localParticipant.getTrackPublication(Track.Source.Camera);
   const isCameraEnabled = localParticipant.isCameraEnabled;
   const isMicEnabled = localParticipant.isMicrophoneEnabled;
   const [facingMode, setFacingMode] = useState<"user" | "environment">("environment");
 
+  const audioSettings = useAudioSettings();
+  const pushToTalk = audioSettings?.pushToTalk ?? false;
+  const [audioSettingsOpen, setAudioSettingsOpen] = useState(false);
+  const [talking, setTalking] = useState(false);
+
+  // Capture options only matter when this creates the mic track, e.g. the
+  // first push-to-talk press
+  const setMicEnabled = useCallback(async (enabled: boolean) => {
+    try {
+      await room.localParticipant.setMicrophoneEnabled(
+        enabled,
+        audioSettings ? toCaptureOptions(audioSettings) : undefined,
+      );
+    } catch (err) {
+      console.warn("[audio] failed to toggle mic", err);
+    }
+  }, [room, audioSettings]);
+
   const toggleMic = useCallback(async () => {
-    await room.localParticipant.setMicrophoneEnabled(!isMicEnabled);
-  }, [room, isMicEnabled]);
+    await setMicEnabled(!isMicEnabled);
+  }, [setMicEnabled, isMicEnabled]);
+
+  const startTalking = useCallback(() => {
+    setTalking(true);
+    setMicEnabled(true);
+  }, [setMicEnabled]);
+
+  const stopTalking = useCallback(() => {
+    setTalking(false);
+    setMicEnabled(false);
+  }, [setMicEnabled]);
+
+  // Switching modes mid-session: push-to-talk starts muted, open mic starts live.
+  // The mode we joined with was already applied by LiveKitRoom.
+  const joinedPushToTalkRef = useRef<boolean | null>(null);
+  useEffect(() => {
+    if (!audioSettings) return;
+    const previous = joinedPushToTalkRef.current;
+    joinedPushToTalkRef.current = audioSettings.pushToTalk;
+    if (previous === null || previous === audioSettings.pushToTalk) return;
+    setMicEnabled(!audioSettings.pushToTalk);
+  }, [audioSettings, setMicEnabled]);
+
+  // Hold space to talk, unless typing
+  useEffect(() => {
+    if (!pushToTalk) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== " " || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key !== " " || isTyping(e.target)) return;
+      e.preventDefault(); // don't click a focused button
+      stopTalking();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    // Releasing the key in another window never reaches us
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", stopTalking);
+    };
+  }, [pushToTalk, startTalking, stopTalking]);
+
+  const statusLabel = isMicEnabled ? state : pushToTalk ? (state === "listening" ? "Hold to talk" : state) : "Paused";
 
   const toggleCamera = useCallback(async () => {
     await room.localParticipant.setCameraEnabled(!isCameraEnabled);
@@ -705,6 +1387,36 @@ function VoiceAssistantUI() {
     });
   }, [room, facingMode]);
 
+  // Stills for a "does this look right?" check, without streaming video
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [capturing, setCapturing] = useState(false);
+  const snapshotUrlsRef = useRef<string[]>([]);
+
+  useEffect(() => () => {
+    for (const url of snapshotUrlsRef.current) URL.revokeObjectURL(url);
+  }, []);
+
+  const takeSnapshot = useCallback(async () => {
+    setCapturing(true);
+    updateView({ cameraRequested: false });
+    try {
+      const image = await captureStill(cameraPublication?.videoTrack, facingMode);
+      const url = URL.createObjectURL(image);
+      snapshotUrlsRef.current.push(url);
+      const step = recipe?.currentStep;
+      setSnapshots((prev) => [...prev, { id: crypto.randomUUID(), url, takenAt: Date.now(), step }]);
+      await sendSnapshot(room.localParticipant, image, {
+        stepNumber: step,
+        recipeTitle: recipe?.title,
+        question: "Does this look right?",
+      });
+    } catch (err) {
+      console.warn("[camera] failed to capture or send snapshot", err);
+    } finally {
+      setCapturing(false);
+    }
+  }, [room, cameraPublication, facingMode, recipe, updateView]);
+
   // Only mirror the front-facing camera
   const videoStyle = {
     width: "100%",
@@ -713,6 +1425,24 @@ function VoiceAssistantUI() {
 
   return (
     <div className="flex flex-col items-center w-full h-full flex-1 relative">
+      <div className="absolute top-2 left-2 z-20 flex items-center gap-2">
+        <button onClick={() => setDiagnosticsOpen((o) => !o)} title="Diagnostics">
+          <ConnectionIndicator />
+        </button>
+        {eventLogEnabled && (
+          <button
+            onClick={downloadEventLog}
+            className="flex items-center gap-1 text-[10px] font-semibold text-red-400 hover:text-red-300"
+            title="Recording data messages for debugging. Click to download the log."
+          >
+            <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+            REC
+          </button>
+        )}
+      </div>
+
+      {diagnosticsOpen && <DiagnosticsOverlay onClose={() => setDiagnosticsOpen(false)} />}
+
       {/* Floating camera PiP overlay */}
       {isCameraEnabled && cameraPublication?.track && (
         <div className="absolute top-2 right-2 z-20 w-32 h-24 rounded-xl overflow-hidden border-2 border-zinc-600 shadow-lg shadow-black/40">
@@ -740,20 +1470,68 @@ function VoiceAssistantUI() {
         </div>
       )}
 
+      {cookingMode && recipe && recipe.steps.length > 0 && (
+        <CookingMode
+          recipe={recipe}
+          timers={timers}
+          agentState={statusLabel}
+          pushToTalk={pushToTalk ? { talking, onStart: startTalking, onStop: stopTalking } : undefined}
+          onStepSelect={goToStep}
+          onPauseTimer={pauseTimer}
+          onStartTimer={startStepTimer}
+          onResumeTimer={resumeTimer}
+          onExit={exitCookingMode}
+        />
+      )}
+
       {/* Scrollable content area */}
       <div className="flex-1 w-full overflow-y-auto flex flex-col items-center gap-4 pb-4">
-        {cameraRequest && !isCameraEnabled && (
+        {reconnecting && (
+          <div className="w-full max-w-md flex items-center gap-3 bg-zinc-800 rounded-lg px-4 py-3 border border-zinc-700">
+            <div className="w-4 h-4 rounded-full border-2 border-zinc-600 border-t-orange-500 animate-spin" />
+            <span className="text-zinc-300 text-sm">Connection interrupted. Reconnecting…</span>
+          </div>
+        )}
+        {agentTimedOut && !agent && !reconnecting && (
+          <div className="w-full max-w-md flex flex-col gap-2 bg-amber-900/40 rounded-lg px-4 py-3 border border-amber-700/60">
+            <span className="text-amber-200 text-sm">Chef Claude hasn&apos;t joined yet. The agent may be busy or offline.</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setAgentTimedOut(false);
+                  setAgentWaitStart(Date.now());
+                }}
+                className="rounded-lg bg-zinc-700 px-4 py-1.5 text-sm font-medium hover:bg-zinc-600 transition-colors"
+              >
+                Keep waiting
+              </button>
+              <button
+                onClick={onRestart}
+                className="rounded-lg bg-orange-600 px-4 py-1.5 text-sm font-medium hover:bg-orange-700 transition-colors"
+              >
+                Restart session
+              </button>
+            </div>
+          </div>
+        )}
+        {cameraRequested && !isCameraEnabled && (
           <div className="w-full max-w-md flex items-center justify-between bg-orange-900/50 rounded-lg px-4 py-3 border border-orange-700 animate-pulse">
             <span className="text-orange-200">Chef Claude wants to see what you're working on</span>
             <div className="flex gap-2">
               <button
-                onClick={enableCameraFromRequest}
+                onClick={takeSnapshot}
                 className="rounded-lg bg-orange-600 px-4 py-1.5 text-sm font-medium hover:bg-orange-700 transition-colors"
               >
-                Enable Camera
+                Send Photo
               </button>
               <button
-                onClick={() => setCameraRequest(false)}
+                onClick={enableCameraFromRequest}
+                className="rounded-lg bg-zinc-700 px-4 py-1.5 text-sm font-medium hover:bg-zinc-600 transition-colors"
+              >
+                Video
+              </button>
+              <button
+                onClick={() => updateView({ cameraRequested: false })}
                 className="text-zinc-400 hover:text-zinc-200 text-sm px-2"
               >
                 No thanks
@@ -762,18 +1540,56 @@ function VoiceAssistantUI() {
           </div>
         )}
         {dishSuggestions.length > 0 && (
-          <DishSuggestions options={dishSuggestions} onSelect={selectDish} />
+          <DishSuggestions
+            options={dishSuggestions}
+            onSelect={selectDish}
+            onMoreLikeThis={requestMoreLikeThis}
+            onRetry={retrySuggestions}
+          />
+        )}
+        {recipe && pastNotes.length > 0 && notesHandledFor !== recipe.title && (
+          <PastNotesBanner
+            entries={pastNotes}
+            onSend={sendPastNotes}
+            onDismiss={() => setNotesHandledFor(recipe.title)}
+          />
+        )}
+        {recipe && (
+          <RecipeCard
+            recipe={recipe}
+            onClose={() => updateView({ recipe: null })}
+            onServingsChange={changeServings}
+            onStepSelect={goToStep}
+            onStartTimer={startStepTimer}
+            onRequestSubstitution={requestSubstitution}
+            onCookingMode={enterCookingMode}
+          />
         )}
-        {recipe && <RecipeCard recipe={recipe} onClose={() => setRecipe(null)} />}
         {groceryList.length > 0 && (
           <GroceryList
             items={groceryList}
             onToggle={toggleGroceryItem}
+            onSetChecked={setGroceryItemsChecked}
+            onRequestSubstitution={requestSubstitution}
             forceExpanded={groceryListOpen}
             onClose={() => setGroceryListOpen(false)}
           />
         )}
-        <TimerDisplay timers={timers} onDismiss={dismissTimer} />
+        {transcriptOpen && (
+          <TranscriptPanel
+            entries={transcript}
+            onSend={sendTypedMessage}
+            onClose={() => setTranscriptOpen(false)}
+          />
+        )}
+        <SnapshotGallery snapshots={snapshots} />
+        <TimerDisplay
+          timers={timers}
+          onPause={pauseTimer}
+          onResume={resumeTimer}
+          onExtend={extendTimer}
+          onCancel={cancelTimer}
+        />
       </div>
 
       {/* Fixed bottom area: visualizer + status + controls */}
@@ -787,11 +1603,35 @@ function VoiceAssistantUI() {
           />
         </div>
         <p className="text-lg capitalize text-zinc-400">
-          {!isMicEnabled ? "Paused" : state}
+          {statusLabel}
         </p>
 
+        {audioSettingsOpen && <AudioSettingsPanel onClose={() => setAudioSettingsOpen(false)} />}
+        {cookTogetherOpen && joinCode && (
+          <CookTogetherPanel joinCode={joinCode} onClose={() => setCookTogetherOpen(false)} />
+        )}
+
         {/* Controls */}
         <div className="flex items-center gap-4">
+        {pushToTalk ? (
+          <button
+            onPointerDown={startTalking}
+            onPointerUp={stopTalking}
+            onPointerLeave={() => talking && stopTalking()}
+            onPointerCancel={stopTalking}
+            onContextMenu={(e) => e.preventDefault()}
+            className={`rounded-full p-4 transition-colors touch-none select-none ${
+              talking ? "bg-orange-600 ring-4 ring-orange-500/40" : "bg-zinc-700 hover:bg-zinc-600"
+            }`}
+            title="Hold to talk (or hold space)"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z" />
+              <path d="M19 10v2a7 7 0 0 1-14 0v-2" />
+              <line x1="12" x2="12" y1="19" y2="22" />
+            </svg>
+          </button>
+        ) : (
         <button
           onClick={toggleMic}
           className={`rounded-full p-4 transition-colors ${
@@ -818,6 +1658,7 @@ function VoiceAssistantUI() {
             </svg>
           )}
         </button>
+        )}
 
         <button
           onClick={toggleCamera}
@@ -842,6 +1683,78 @@ function VoiceAssistantUI() {
           )}
         </button>
 
+        <button
+          onClick={takeSnapshot}
+          disabled={capturing}
+          className="rounded-full p-4 transition-colors bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 disabled:opacity-50"
+          title="Send a photo to Chef Claude"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M14.5 4h-5L7 7H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2h-3l-2.5-3z" />
+            <circle cx="12" cy="13" r="3" />
+          </svg>
+        </button>
+
+        <button
+          onClick={() => setTranscriptOpen((o) => !o)}
+          className={`rounded-full p-4 transition-colors ${
+            transcriptOpen
+              ? "bg-zinc-600 hover:bg-zinc-500"
+              : "bg-zinc-800 hover:bg-zinc-700 border border-zinc-600"
+          }`}
+          title={transcriptOpen ? "Hide conversation" : "Show conversation"}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+          </svg>
+        </button>
+
+        {joinCode && (
+        <button
+          onClick={() => setCookTogetherOpen((o) => !o)}
+          className={`rounded-full p-4 transition-colors relative ${
+            cookTogetherOpen
+              ? "bg-zinc-600 hover:bg-zinc-500"
+              : "bg-zinc-800 hover:bg-zinc-700 border border-zinc-600"
+          }`}
+          title="Cook together"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+            <circle cx="9" cy="7" r="4" />
+            <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
+            <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+          </svg>
+          {otherCooks.size > 0 && (
+            <span className="absolute -top-1 -right-1 bg-sky-500 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
+              {otherCooks.size + 1}
+            </span>
+          )}
+        </button>
+        )}
+
+        <button
+          onClick={() => setAudioSettingsOpen((o) => !o)}
+          className={`rounded-full p-4 transition-colors ${
+            audioSettingsOpen
+              ? "bg-zinc-600 hover:bg-zinc-500"
+              : "bg-zinc-800 hover:bg-zinc-700 border border-zinc-600"
+          }`}
+          title="Audio settings"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="4" x2="4" y1="21" y2="14" />
+            <line x1="4" x2="4" y1="10" y2="3" />
+            <line x1="12" x2="12" y1="21" y2="12" />
+            <line x1="12" x2="12" y1="8" y2="3" />
+            <line x1="20" x2="20" y1="21" y2="16" />
+            <line x1="20" x2="20" y1="12" y2="3" />
+            <line x1="2" x2="6" y1="14" y2="14" />
+            <line x1="10" x2="14" y1="8" y2="8" />
+            <line x1="18" x2="22" y1="16" y2="16" />
+          </svg>
+        </button>
+
         {groceryList.length > 0 && (
           <button
             onClick={() => setGroceryListOpen((o) => !o)}
@@ -875,43 +1788,339 @@ function VoiceAssistantUI() {
   );
 }
 
+// The agent simulator (/?simulate) is for UI work without a LiveKit server.
+// Loaded on demand, and the condition is fixed at build time, so production
+// bundles don't include it
+const SIMULATOR_ENABLED = process.env.NODE_ENV === "development";
+const AgentSimulator = SIMULATOR_ENABLED
+  ? dynamic(() => import("@/components/AgentSimulator"), { ssr: false })
+  : () => null;
+
+// How long to wait for the agent to join before offering a restart
+const AGENT_JOIN_TIMEOUT_MS = 15_000;
+
+type ConnectionStatus =
+  | { state: "idle" }
+  | { state: "connecting"; attempt: number; reconnecting: boolean }
+  | { state: "failed"; message: string; session: SessionSnapshot | null; target: RoomTarget };
+
 export default function Home() {
-  const [connectionDetails, setConnectionDetails] = useState<{
-    token: string;
-    url: string;
-  } | null>(null);
-
-  const connect = useCallback(async () => {
-    const res = await fetch("/api/token");
-    const details = await res.json();
-    setConnectionDetails(details);
+  const savedSession = useSavedSession();
+  const [resumeRoom, setResumeRoom] = useState(true);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [connectionDetails, setConnectionDetails] = useState<
+    (ConnectionDetails & { session: SessionSnapshot | null; audio: AudioSettings }) | null
+  >(null);
+  const [status, setStatus] = useState<ConnectionStatus>({ state: "idle" });
+  // Join code from an invite link, or "" while typing one in by hand
+  const [invite, setInvite] = useState<string | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  // How to get back into the room we're in; cleared first thing on any
+  // disconnect so the LiveKitRoom's error and disconnect callbacks only handle it once
+  const activeTargetRef = useRef<RoomTarget | null>(null);
+  const failuresRef = useRef(0);
+  const rejoinTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (rejoinTimeoutRef.current) clearTimeout(rejoinTimeoutRef.current);
+  }, []);
+
+  const startSession = useCallback(async (
+    session: SessionSnapshot | null,
+    target: RoomTarget = {},
+    reconnecting = false,
+  ) => {
+    setStatus({ state: "connecting", attempt: 0, reconnecting });
+    try {
+      const details = await fetchTokenWithRetry(target, (attempt) =>
+        setStatus({ state: "connecting", attempt, reconnecting }),
+      );
+      // Guests keep using their invite so they rejoin as guests
+      activeTargetRef.current = "joinCode" in target ? target : { resume: details.resume };
+      const joinCode = "joinCode" in target ? target.joinCode : details.joinCode;
+      setConnectionDetails({ ...details, joinCode, session, audio: loadAudioSettings() });
+      setStatus({ state: "idle" });
+    } catch (err) {
+      console.error("[token] giving up", err);
+      const message = err instanceof Error ? err.message : "Couldn't start a session";
+      setStatus({ state: "failed", message, session, target });
+    }
   }, []);
 
+  const connect = useCallback(async (session: SessionSnapshot | null) => {
+    if (!session) clearSession();
+    if (!session || !resumeRoom) {
+      await startSession(session);
+    } else {
+      await startSession(session, session.joinCode ? { joinCode: session.joinCode } : { resume: session.resume });
+    }
+  }, [resumeRoom, startSession]);
+
+  // Dropped by the server or the network (LiveKit has already given up on its
+  // own reconnects by now): rejoin the same room with the saved session
+  const handleConnectionLost = useCallback((reason?: DisconnectReason) => {
+    const target = activeTargetRef.current;
+    if (!target) return;
+    activeTargetRef.current = null;
+    setConnectionDetails(null);
+    if (reason === DisconnectReason.CLIENT_INITIATED) return;
+
+    const session = loadSession();
+    if (reason === DisconnectReason.DUPLICATE_IDENTITY) {
+      setStatus({ state: "failed", message: "This session was opened in another tab.", session, target });
+      return;
+    }
+    const failures = ++failuresRef.current;
+    if (failures > RETRY_DELAYS_MS.length) {
+      setStatus({ state: "failed", message: "Lost the connection to the voice server.", session, target });
+      return;
+    }
+    console.warn(`[session] connection lost (${reason ?? "connect failed"}), rejoining`);
+    setStatus({ state: "connecting", attempt: failures, reconnecting: true });
+    rejoinTimeoutRef.current = setTimeout(() => startSession(session, target, true), RETRY_DELAYS_MS[failures - 1]);
+  }, [startSession]);
+
+  // The agent never showed up; a fresh room gets a fresh dispatch
+  const restartSession = useCallback(() => {
+    activeTargetRef.current = null;
+    setConnectionDetails(null);
+    startSession(loadSession(), {}, true);
+  }, [startSession]);
+
+  // Changing these recreates the room, so they're fixed when joining;
+  // the settings panel applies later changes to the live room
+  const roomOptions = useMemo<RoomOptions | undefined>(() => {
+    if (!connectionDetails) return undefined;
+    const { audio } = connectionDetails;
+    return {
+      audioCaptureDefaults: toCaptureOptions(audio),
+      audioOutput: audio.outputDeviceId ? { deviceId: audio.outputDeviceId } : undefined,
+    };
+  }, [connectionDetails]);
+
+  // "Cook this again" from the cookbook lands here as /?cook=<id>
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("cook");
+    if (!id) return;
+    const saved = findSavedRecipe(id);
+    if (!saved) {
+      console.warn("[cookbook] no saved recipe", id);
+      return;
+    }
+    // Deferred so the effect itself doesn't set state
+    const timeout = setTimeout(() => {
+      window.history.replaceState(null, "", "/");
+      startSession(sessionFromRecipe(saved.recipe));
+    }, 0);
+    return () => clearTimeout(timeout);
+  }, [startSession]);
+
+  // Invite links land here as /?join=<code>; ask for a name before joining
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get("join");
+    const simulate = SIMULATOR_ENABLED && params.has("simulate");
+    if (!code && !simulate) return;
+    const timeout = setTimeout(() => {
+      if (simulate) {
+        setSimulating(true);
+        return;
+      }
+      window.history.replaceState(null, "", "/");
+      setInvite(code);
+    }, 0);
+    return () => clearTimeout(timeout);
+  }, []);
+
+  // The host's state arrives from the room, so a guest starts empty
+  const joinSession = useCallback((joinCode: string) => {
+    setInvite(null);
+    startSession(null, { joinCode });
+  }, [startSession]);
+
+  // Start a guided session on a recipe from a JSON-LD file
+  const importRecipe = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const recipe = parseRecipeFile(await file.text());
+      setImportError(null);
+      await connect(sessionFromRecipe(recipe));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Could not import this file");
+    }
+  }, [connect]);
+
   return (
-    <div className="flex h-screen flex-col items-center bg-zinc-950 text-white font-sans p-6">
+    <div className="flex h-screen flex-col items-center bg-zinc-950 text-white font-sans p-6 print:hidden">
       <h1 className="text-3xl font-bold tracking-tight shrink-0">Chef Claude</h1>
       <p className="text-zinc-400 text-base mb-4 shrink-0">Your AI cooking assistant</p>
 
-      {!connectionDetails ? (
-        <div className="flex-1 flex items-center">
+      {!connectionDetails && status.state === "connecting" ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-3">
+          <div className="w-10 h-10 rounded-full border-4 border-zinc-700 border-t-orange-500 animate-spin" />
+          <p className="text-lg text-zinc-300">
+            {status.reconnecting ? "Connection lost. Reconnecting…" : "Connecting…"}
+          </p>
+          {status.attempt > 0 && (
+            <p className="text-sm text-zinc-500">
+              Retry {status.attempt} of {RETRY_DELAYS_MS.length}
+            </p>
+          )}
+        </div>
+      ) : !connectionDetails && status.state === "failed" ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4">
+          <div className="w-full max-w-sm rounded-2xl border border-red-700/50 bg-red-900/20 px-5 py-4 text-center">
+            <p className="text-base font-semibold text-red-200">Couldn&apos;t connect</p>
+            <p className="text-sm text-red-300/80 mt-1">{status.message}</p>
+          </div>
+          <button
+            onClick={() => {
+              failuresRef.current = 0;
+              startSession(status.session, status.target);
+            }}
+            className="rounded-full bg-orange-600 px-8 py-3 text-lg font-semibold hover:bg-orange-700 transition-colors"
+          >
+            Try again
+          </button>
           <button
-            onClick={connect}
-            className="rounded-full bg-orange-600 px-8 py-4 text-xl font-semibold hover:bg-orange-700 transition-colors"
+            onClick={() => setStatus({ state: "idle" })}
+            className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors"
           >
-            Start Cooking
+            Back
           </button>
         </div>
+      ) : !connectionDetails && simulating ? (
+        <LiveKitRoom
+          token={undefined}
+          serverUrl={undefined}
+          connect={false}
+          audio={false}
+          video={false}
+          className="flex flex-col items-center w-full flex-1 min-h-0"
+        >
+          <VoiceAssistantUI initialSession={null} onRestart={() => {}} simulated />
+          <AgentSimulator
+            onExit={() => {
+              window.history.replaceState(null, "", "/");
+              setSimulating(false);
+            }}
+          />
+        </LiveKitRoom>
+      ) : !connectionDetails && invite !== null ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4">
+          <JoinSessionForm joinCode={invite || undefined} onJoin={joinSession} onCancel={() => setInvite(null)} />
+        </div>
+      ) : !connectionDetails ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4">
+          {savedSession ? (
+            <>
+              <button
+                onClick={() => connect(savedSession)}
+                className="rounded-full bg-orange-600 px-8 py-4 text-xl font-semibold hover:bg-orange-700 transition-colors"
+              >
+                Resume Cooking
+              </button>
+              <p className="text-sm text-zinc-400 text-center max-w-xs">
+                {savedSession.recipe
+                  ? `Continue ${savedSession.recipe.title}${
+                      savedSession.recipe.currentStep ? ` from step ${savedSession.recipe.currentStep}` : ""
+                    }`
+                  : "Continue your previous session"}
+              </p>
+              {(savedSession.resume || savedSession.joinCode) && (
+                <label className="flex items-center gap-2 text-sm text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={resumeRoom}
+                    onChange={(e) => setResumeRoom(e.target.checked)}
+                    className="accent-orange-600"
+                  />
+                  Rejoin the same room
+                </label>
+              )}
+              <button
+                onClick={() => connect(null)}
+                className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors"
+              >
+                Start fresh
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => connect(null)}
+              className="rounded-full bg-orange-600 px-8 py-4 text-xl font-semibold hover:bg-orange-700 transition-colors"
+            >
+              Start Cooking
+            </button>
+          )}
+          <label className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors cursor-pointer">
+            Import a recipe (JSON-LD)
+            <input
+              type="file"
+              accept=".json,.jsonld,.html,application/json,application/ld+json,text/html"
+              onChange={importRecipe}
+              className="hidden"
+            />
+          </label>
+          {importError && <p className="text-sm text-red-400">{importError}</p>}
+          <button
+            onClick={() => setInvite("")}
+            className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            Join a friend&apos;s session
+          </button>
+          {SIMULATOR_ENABLED && (
+            <button
+              onClick={() => {
+                window.history.replaceState(null, "", "/?simulate");
+                setSimulating(true);
+              }}
+              className="text-xs text-fuchsia-400/70 hover:text-fuchsia-300 transition-colors"
+            >
+              Agent simulator (dev)
+            </button>
+          )}
+          <div className="flex items-center gap-4">
+            <Link href="/recipes" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+              My cookbook
+            </Link>
+            <Link href="/history" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+              Cook log
+            </Link>
+            <Link href="/profile" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+              Profile
+            </Link>
+            <Link href="/replay" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+              Debug log
+            </Link>
+          </div>
+        </div>
       ) : (
         <LiveKitRoom
           token={connectionDetails.token}
           serverUrl={connectionDetails.url}
           connect={true}
-          audio={true}
+          audio={connectionDetails.audio.pushToTalk ? false : toCaptureOptions(connectionDetails.audio)}
           video={false}
+          options={roomOptions}
           className="flex flex-col items-center w-full flex-1 min-h-0"
-          onDisconnected={() => setConnectionDetails(null)}
+          onConnected={() => {
+            failuresRef.current = 0;
+          }}
+          onDisconnected={handleConnectionLost}
+          onError={(err) => {
+            console.warn("[session] room error", err);
+            handleConnectionLost();
+          }}
         >
-          <VoiceAssistantUI />
+          <VoiceAssistantUI
+            resume={connectionDetails.resume}
+            initialSession={connectionDetails.session}
+            joinCode={connectionDetails.joinCode}
+            onRestart={restartSession}
+          />
           <RoomAudioRenderer />
         </LiveKitRoom>
       )}
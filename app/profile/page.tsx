@@ -0,0 +1,176 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { EMPTY_PROFILE, saveProfile, useProfile, type CookingProfile, type SkillLevel } from "@/lib/profile";
+
+const DIET_PRESETS = ["vegetarian", "vegan", "pescatarian", "gluten-free", "dairy-free", "low-carb", "halal", "kosher"];
+const ALLERGY_PRESETS = ["peanuts", "tree nuts", "dairy", "eggs", "fish", "shellfish", "soy", "wheat", "sesame"];
+const EQUIPMENT_PRESETS = [
+  "oven",
+  "stovetop",
+  "microwave",
+  "air fryer",
+  "slow cooker",
+  "pressure cooker",
+  "blender",
+  "food processor",
+  "stand mixer",
+  "grill",
+];
+const SKILLS: SkillLevel[] = ["beginner", "intermediate", "advanced"];
+
+function TagField({
+  label,
+  hint,
+  presets = [],
+  values,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  presets?: string[];
+  values: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const toggle = (value: string) =>
+    onChange(values.includes(value) ? values.filter((v) => v !== value) : [...values, value]);
+  const add = () => {
+    const value = draft.trim().toLowerCase();
+    if (value && !values.includes(value)) onChange([...values, value]);
+    setDraft("");
+  };
+
+  return (
+    <section>
+      <h2 className="text-sm font-medium text-orange-400">{label}</h2>
+      <p className="text-xs text-zinc-500 mt-0.5">{hint}</p>
+      <div className="flex flex-wrap gap-1.5 mt-2">
+        {[...presets, ...values.filter((v) => !presets.includes(v))].map((value) => {
+          const active = values.includes(value);
+          return (
+            <button
+              key={value}
+              onClick={() => toggle(value)}
+              className={`rounded-full border px-2.5 py-0.5 text-xs capitalize transition-colors ${
+                active
+                  ? "border-orange-600/60 bg-orange-600/20 text-orange-200"
+                  : "border-zinc-700 text-zinc-400 hover:text-zinc-200"
+              }`}
+            >
+              {value}
+            </button>
+          );
+        })}
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          add();
+        }}
+        className="mt-2"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add another…"
+          className="w-full rounded-lg bg-zinc-900 border border-zinc-700 px-3 py-1.5 text-sm text-white placeholder:text-zinc-500 focus:outline-none focus:border-orange-600/60"
+        />
+      </form>
+    </section>
+  );
+}
+
+export default function ProfilePage() {
+  const profile = useProfile();
+  if (!profile) return <div className="min-h-screen bg-zinc-950" />;
+
+  const update = (patch: Partial<CookingProfile>) => saveProfile({ ...profile, ...patch });
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-zinc-950 text-white font-sans p-6">
+      <div className="w-full max-w-md">
+        <Link href="/" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+          ← Chef Claude
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight mt-2">Cooking profile</h1>
+        <p className="text-sm text-zinc-400 mt-1 mb-6">
+          Shared with Chef Claude at the start of every session. Saved on this device only.
+        </p>
+
+        <div className="flex flex-col gap-6 bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-2xl border border-zinc-700 px-5 py-5">
+          <TagField
+            label="Diet"
+            hint="Suggestions and recipes will stick to these."
+            presets={DIET_PRESETS}
+            values={profile.diet}
+            onChange={(diet) => update({ diet })}
+          />
+          <TagField
+            label="Allergies"
+            hint="Never used, and flagged if a recipe calls for them."
+            presets={ALLERGY_PRESETS}
+            values={profile.allergies}
+            onChange={(allergies) => update({ allergies })}
+          />
+          <TagField
+            label="Dislikes"
+            hint="Avoided where possible, e.g. cilantro or mushrooms."
+            values={profile.dislikes}
+            onChange={(dislikes) => update({ dislikes })}
+          />
+
+          <section>
+            <h2 className="text-sm font-medium text-orange-400">Skill level</h2>
+            <div className="flex rounded-lg border border-zinc-700 overflow-hidden text-sm mt-2">
+              {SKILLS.map((skill) => (
+                <button
+                  key={skill}
+                  onClick={() => update({ skill: profile.skill === skill ? undefined : skill })}
+                  className={`flex-1 px-3 py-1.5 capitalize transition-colors ${
+                    profile.skill === skill ? "bg-orange-600/20 text-orange-300" : "text-zinc-400 hover:text-zinc-200"
+                  }`}
+                >
+                  {skill}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <TagField
+            label="Equipment"
+            hint="What your kitchen has."
+            presets={EQUIPMENT_PRESETS}
+            values={profile.equipment}
+            onChange={(equipment) => update({ equipment })}
+          />
+
+          <section>
+            <h2 className="text-sm font-medium text-orange-400">Units</h2>
+            <div className="flex rounded-lg border border-zinc-700 overflow-hidden text-sm mt-2">
+              {([undefined, "metric", "imperial"] as const).map((units) => (
+                <button
+                  key={units ?? "original"}
+                  onClick={() => update({ units })}
+                  className={`flex-1 px-3 py-1.5 transition-colors ${
+                    profile.units === units ? "bg-orange-600/20 text-orange-300" : "text-zinc-400 hover:text-zinc-200"
+                  }`}
+                >
+                  {units === undefined ? "As written" : units === "metric" ? "Metric" : "Imperial"}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <button
+            onClick={() => saveProfile(EMPTY_PROFILE)}
+            className="self-start text-sm text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            Clear profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import IngredientList from "@/components/IngredientList";
+import StepList from "@/components/StepList";
+import { removeRecipe, useCookbook } from "@/lib/cookbook";
+
+export default function SavedRecipePage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const cookbook = useCookbook();
+  const entry = cookbook?.find((e) => e.id === id);
+
+  if (!cookbook) return <div className="min-h-screen bg-zinc-950" />;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-zinc-950 text-white font-sans p-6">
+      <div className="w-full max-w-md">
+        <Link href="/recipes" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+          ← Cookbook
+        </Link>
+
+        {!entry ? (
+          <p className="text-sm text-zinc-400 mt-6">This recipe isn&apos;t in your cookbook.</p>
+        ) : (
+          <div className="mt-3 bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-2xl border border-zinc-700 shadow-xl">
+            <div className="px-5 pt-5 pb-4 border-b border-zinc-700/50">
+              <h1 className="text-xl font-bold text-white leading-tight">{entry.recipe.title}</h1>
+              <p className="text-sm text-zinc-400 mt-2">
+                {entry.recipe.prepTimeMinutes} min · {entry.recipe.ingredients.length} ingredients ·{" "}
+                {entry.recipe.steps.length} steps
+              </p>
+              {entry.recipe.tutorialUrl && (
+                <a
+                  href={entry.recipe.tutorialUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block mt-2 text-sm text-orange-400 hover:text-orange-300 truncate"
+                >
+                  {entry.recipe.ogTitle || entry.recipe.tutorialTitle || "View tutorial"}
+                  {entry.recipe.tutorialSource && ` · ${entry.recipe.tutorialSource}`}
+                </a>
+              )}
+              <div className="flex items-center gap-4 mt-4">
+                <Link
+                  href={`/?cook=${entry.id}`}
+                  className="rounded-full bg-orange-600 px-5 py-2 text-sm font-semibold hover:bg-orange-700 transition-colors"
+                >
+                  Cook this again
+                </Link>
+                <button
+                  onClick={() => {
+                    removeRecipe(entry.id);
+                    router.push("/recipes");
+                  }}
+                  className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            <h2 className="px-5 pt-4 text-sm font-medium text-orange-400">Ingredients</h2>
+            <IngredientList recipe={entry.recipe} />
+            <h2 className="px-5 pt-2 text-sm font-medium text-orange-400 border-t border-zinc-700/50 pt-4">Steps</h2>
+            <StepList steps={entry.recipe.steps} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import { removeRecipe, useCookbook } from "@/lib/cookbook";
+
+export default function CookbookPage() {
+  const cookbook = useCookbook();
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-zinc-950 text-white font-sans p-6">
+      <div className="w-full max-w-md">
+        <Link href="/" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+          ← Chef Claude
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight mt-2 mb-6">Cookbook</h1>
+
+        {cookbook?.length === 0 && (
+          <p className="text-sm text-zinc-400">
+            No saved recipes yet. Tap the bookmark on a recipe while cooking to keep it here.
+          </p>
+        )}
+
+        <ul className="flex flex-col gap-3">
+          {cookbook?.map(({ id, savedAt, recipe }) => {
+            const servings = recipe.scaledServings ?? recipe.servings;
+            return (
+              <li
+                key={id}
+                className="bg-gradient-to-r from-zinc-800 to-zinc-850 rounded-2xl border border-zinc-700 px-5 py-4"
+              >
+                <Link href={`/recipes/${id}`} className="group block">
+                  <h2 className="text-lg font-bold text-white truncate group-hover:text-orange-50 transition-colors">
+                    {recipe.title}
+                  </h2>
+                  <p className="text-xs text-zinc-400 mt-1">
+                    {recipe.prepTimeMinutes} min · {servings} serving{servings !== 1 ? "s" : ""} ·{" "}
+                    {recipe.ingredients.length} ingredients · saved {new Date(savedAt).toLocaleDateString()}
+                  </p>
+                </Link>
+                <div className="flex items-center gap-4 mt-3">
+                  <Link
+                    href={`/?cook=${id}`}
+                    className="rounded-full bg-orange-600 px-4 py-1.5 text-sm font-semibold hover:bg-orange-700 transition-colors"
+                  >
+                    Cook this again
+                  </Link>
+                  <button
+                    onClick={() => removeRecipe(id)}
+                    className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import IngredientList from "@/components/IngredientList";
+import StepList from "@/components/StepList";
+import {
+  clearEventLog,
+  downloadEventLog,
+  parseEventLog,
+  setEventLogEnabled,
+  useEventLog,
+  useEventLogEnabled,
+  type EventLog,
+} from "@/lib/event-log";
+import { replayEventLog, type ReplayOutcome, type ReplayState, type ReplayStep } from "@/lib/replay";
+import { timerRemainingMs } from "@/lib/timers";
+
+const OUTCOME_STYLES: Record<ReplayOutcome, string> = {
+  applied: "text-emerald-400",
+  ignored: "text-zinc-400",
+  rejected: "text-red-400",
+};
+
+function formatOffset(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `+${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}.${Math.floor((ms % 1000) / 100)}`;
+}
+
+function formatSeconds(ms: number): string {
+  const left = Math.ceil(ms / 1000);
+  return `${Math.floor(left / 60)}:${(left % 60).toString().padStart(2, "0")}`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-2xl border border-zinc-700 overflow-hidden">
+      <h2 className="px-5 pt-4 text-xs uppercase tracking-wide text-zinc-500">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function ReplayStateView({ state, at }: { state: ReplayState; at: number }) {
+  const { recipe } = state;
+  return (
+    <div className="flex flex-col gap-3">
+      {state.cameraRequested && (
+        <p className="rounded-xl border border-orange-800/60 bg-orange-950/40 px-4 py-2 text-sm text-orange-200">
+          The agent has asked for the camera.
+        </p>
+      )}
+      {state.chosenDish && !recipe && (
+        <p className="text-sm text-zinc-400">
+          Picked <span className="text-zinc-200">{state.chosenDish}</span>, waiting for the recipe.
+        </p>
+      )}
+      {state.dishSuggestions.length > 0 && (
+        <Section title="Suggestions">
+          <ul className="px-5 py-3 flex flex-col gap-1 text-sm">
+            {state.dishSuggestions.map((option) => (
+              <li key={option.title}>
+                <span className="text-zinc-200">{option.title}</span>
+                <span className="text-zinc-500"> · {option.description}</span>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+      {recipe && (
+        <Section title={`Recipe · step ${recipe.currentStep ?? "–"} of ${recipe.steps.length}`}>
+          <h3 className="px-5 pt-1 text-lg font-bold text-white">{recipe.title}</h3>
+          {recipe.tutorialUrl && (
+            <p className="px-5 text-xs text-zinc-400 truncate">Tutorial: {recipe.tutorialTitle ?? recipe.tutorialUrl}</p>
+          )}
+          <IngredientList recipe={recipe} />
+          <StepList steps={recipe.steps} currentStep={recipe.currentStep} />
+        </Section>
+      )}
+      {state.timers.length > 0 && (
+        <Section title="Timers">
+          <ul className="px-5 py-3 flex flex-col gap-1 text-sm">
+            {state.timers.map((timer) => (
+              <li key={timer.id} className="flex items-center justify-between">
+                <span className="text-zinc-200">{timer.label}</span>
+                <span className="font-mono text-zinc-400">
+                  {formatSeconds(timerRemainingMs(timer, at))}
+                  {timer.pausedAt !== undefined && " (paused)"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+      {state.groceryList.length > 0 && (
+        <Section title="Grocery list">
+          <ul className="px-5 py-3 flex flex-col gap-2 text-sm">
+            {state.groceryList.map((item) => (
+              <li key={item.recipe}>
+                <p className="text-zinc-400">{item.recipe}</p>
+                <ul>
+                  {item.ingredients.map((ingredient) => (
+                    <li key={ingredient} className={item.checked.includes(ingredient) ? "text-zinc-500 line-through" : "text-zinc-200"}>
+                      {ingredient}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+      {!recipe && !state.chosenDish && state.dishSuggestions.length === 0 && state.timers.length === 0 &&
+        state.groceryList.length === 0 && <p className="text-sm text-zinc-500">Nothing on screen yet.</p>}
+    </div>
+  );
+}
+
+function StepDetail({ step }: { step: ReplayStep }) {
+  const { entry } = step;
+  const payload = useMemo(() => {
+    try {
+      return JSON.stringify(JSON.parse(entry.payload), null, 2);
+    } catch {
+      return entry.payload;
+    }
+  }, [entry.payload]);
+
+  return (
+    <div className="rounded-2xl border border-zinc-800 bg-zinc-900 px-4 py-3 flex flex-col gap-2 text-sm">
+      <p>
+        <span className="text-zinc-400">
+          {entry.direction === "published" ? "Published" : entry.agent === false ? `From ${entry.participant}` : "From the agent"}
+        </span>{" "}
+        <span className="font-mono text-zinc-200">{step.type ?? "(no type)"}</span>{" "}
+        <span className="text-zinc-500">on {entry.topic ?? "no topic"}</span>
+      </p>
+      <p className={OUTCOME_STYLES[step.outcome]}>
+        {step.outcome}
+        {step.detail && `: ${step.detail}`}
+      </p>
+      {step.warnings.map((warning) => (
+        <p key={warning} className="text-amber-400">
+          warning: {warning}
+        </p>
+      ))}
+      {step.finished.map((timer) => (
+        <p key={timer.id} className="text-zinc-400">
+          Timer &ldquo;{timer.label}&rdquo; finished before this message.
+        </p>
+      ))}
+      <pre className="max-h-64 overflow-auto rounded-lg bg-zinc-950 border border-zinc-800 px-3 py-2 font-mono text-xs text-zinc-300 whitespace-pre-wrap break-all">
+        {payload || "(empty payload)"}
+      </pre>
+    </div>
+  );
+}
+
+function ReplayViewer({ log, onClose }: { log: EventLog; onClose: () => void }) {
+  const steps = useMemo(() => replayEventLog(log), [log]);
+  const [index, setIndex] = useState(0);
+  const step = steps[index];
+  const start = steps[0]?.entry.t ?? 0;
+
+  if (!step) {
+    return (
+      <div className="flex flex-col gap-3">
+        <p className="text-sm text-zinc-400">This log has no messages.</p>
+        <button onClick={onClose} className="self-start text-sm text-zinc-500 hover:text-zinc-300">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIndex(index - 1)}
+          disabled={index === 0}
+          className="rounded-lg bg-zinc-700 px-3 py-1.5 text-sm hover:bg-zinc-600 disabled:opacity-40"
+        >
+          ← Prev
+        </button>
+        <button
+          onClick={() => setIndex(index + 1)}
+          disabled={index === steps.length - 1}
+          className="rounded-lg bg-zinc-700 px-3 py-1.5 text-sm hover:bg-zinc-600 disabled:opacity-40"
+        >
+          Next →
+        </button>
+        <span className="text-xs text-zinc-500">
+          {index + 1} of {steps.length} · {formatOffset(step.entry.t - start)}
+        </span>
+        <button onClick={onClose} className="ml-auto text-sm text-zinc-500 hover:text-zinc-300">
+          Close
+        </button>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={steps.length - 1}
+        value={index}
+        onChange={(e) => setIndex(Number(e.target.value))}
+        className="accent-orange-500"
+      />
+      <ol className="max-h-48 overflow-y-auto rounded-2xl border border-zinc-800 bg-zinc-900 py-1 text-xs">
+        {steps.map((s, i) => (
+          <li key={i}>
+            <button
+              onClick={() => setIndex(i)}
+              className={`w-full flex items-center gap-2 px-3 py-0.5 text-left ${
+                i === index ? "bg-orange-600/20" : "hover:bg-zinc-800"
+              }`}
+            >
+              <span className="w-14 shrink-0 font-mono text-zinc-500">{formatOffset(s.entry.t - start)}</span>
+              <span className="w-3 shrink-0 text-zinc-500">{s.entry.direction === "published" ? "↑" : "↓"}</span>
+              <span className="flex-1 truncate font-mono text-zinc-200">{s.type ?? "(no type)"}</span>
+              <span className={OUTCOME_STYLES[s.outcome]}>{s.outcome}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      <StepDetail step={step} />
+      <ReplayStateView state={step.state} at={step.entry.t} />
+    </div>
+  );
+}
+
+export default function EventLogPage() {
+  const enabled = useEventLogEnabled();
+  const recorded = useEventLog();
+  const [replaying, setReplaying] = useState<EventLog | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setReplaying(parseEventLog(await file.text()));
+      setOpenError(null);
+    } catch (err) {
+      setOpenError(err instanceof Error ? err.message : "Could not open this file");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-zinc-950 text-white font-sans p-6">
+      <div className="w-full max-w-2xl">
+        <Link href="/" className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+          ← Chef Claude
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight mt-2 mb-6">Debug log</h1>
+
+        {replaying ? (
+          <ReplayViewer log={replaying} onClose={() => setReplaying(null)} />
+        ) : (
+          <div className="flex flex-col gap-4">
+            <p className="text-sm text-zinc-400">
+              Records every message the agent and other cooks send, and everything this device publishes, so a
+              problem can be replayed exactly. Recordings stay on this device until you download them.
+            </p>
+            <label className="flex items-center gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEventLogEnabled(e.target.checked)}
+                className="accent-orange-500"
+              />
+              Record sessions
+            </label>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-zinc-400 mr-2">
+                {recorded ? `${recorded.entries.length} message${recorded.entries.length !== 1 ? "s" : ""} recorded` : ""}
+              </span>
+              <button
+                onClick={() => recorded && setReplaying(recorded)}
+                disabled={!recorded?.entries.length}
+                className="rounded-lg bg-orange-600 px-3 py-1.5 font-medium hover:bg-orange-700 disabled:opacity-40 transition-colors"
+              >
+                Replay
+              </button>
+              <button
+                onClick={downloadEventLog}
+                disabled={!recorded?.entries.length}
+                className="rounded-lg bg-zinc-700 px-3 py-1.5 hover:bg-zinc-600 disabled:opacity-40 transition-colors"
+              >
+                Download
+              </button>
+              <button
+                onClick={clearEventLog}
+                disabled={!recorded?.entries.length}
+                className="rounded-lg bg-zinc-700 px-3 py-1.5 hover:bg-zinc-600 disabled:opacity-40 transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+            <label className="self-start text-sm text-zinc-400 hover:text-zinc-200 cursor-pointer">
+              Open a log file…
+              <input type="file" accept=".json,application/json" onChange={openFile} className="hidden" />
+            </label>
+            {openError && <p className="text-sm text-red-400">{openError}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useRoomContext } from "@livekit/components-react";
+import { RoomEvent } from "livekit-client";
+import { useCallback, useEffect, useState } from "react";
+import { downloadFile } from "@/lib/download";
+import {
+  loadTimeline,
+  newEventId,
+  parseTimeline,
+  saveTimeline,
+  SCENARIOS,
+  TOPICS,
+  type SimulatedEvent,
+} from "@/lib/simulator";
+
+/**
+ * Development-only stand-in for the agent: plays a timeline of data-channel
+ * messages into the room as if the agent had sent them.
+ */
+export default function AgentSimulator({ onExit }: { onExit: () => void }) {
+  const room = useRoomContext();
+  const [events, setEvents] = useState<SimulatedEvent[]>(loadTimeline);
+  const [cursor, setCursor] = useState(0); // next event to play
+  const [playing, setPlaying] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveTimeline(events);
+  }, [events]);
+
+  // Same path as a real packet: the UI's DataReceived handler decodes and applies it
+  const inject = useCallback((event: SimulatedEvent) => {
+    room.emit(RoomEvent.DataReceived, new TextEncoder().encode(event.payload), undefined, undefined, event.topic);
+  }, [room]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const event = events[cursor];
+    const timeout = setTimeout(() => {
+      if (!event) {
+        setPlaying(false);
+        return;
+      }
+      inject(event);
+      setCursor(cursor + 1);
+    }, event?.delayMs ?? 0);
+    return () => clearTimeout(timeout);
+  }, [playing, cursor, events, inject]);
+
+  const step = () => {
+    const event = events[cursor];
+    if (!event) return;
+    inject(event);
+    setCursor(cursor + 1);
+  };
+
+  const reset = () => {
+    setPlaying(false);
+    setCursor(0);
+  };
+
+  const loadScenario = (name: string) => {
+    const scenario = SCENARIOS.find((s) => s.name === name);
+    if (!scenario) return;
+    setEvents(scenario.build());
+    reset();
+  };
+
+  const update = (id: string, changes: Partial<SimulatedEvent>) => {
+    setEvents((prev) => prev.map((e) => (e.id === id ? { ...e, ...changes } : e)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= events.length) return;
+    const next = [...events];
+    [next[index], next[target]] = [next[target], next[index]];
+    setEvents(next);
+  };
+
+  const duplicate = (index: number) => {
+    const copy = { ...events[index], id: newEventId() };
+    setEvents([...events.slice(0, index + 1), copy, ...events.slice(index + 1)]);
+  };
+
+  const remove = (index: number) => {
+    setEvents(events.filter((_, i) => i !== index));
+    if (cursor > index) setCursor(cursor - 1);
+  };
+
+  const addEvent = () => {
+    const event: SimulatedEvent = {
+      id: newEventId(),
+      delayMs: 1000,
+      topic: TOPICS[0],
+      payload: '{\n  "version": 1,\n  "type": ""\n}',
+    };
+    setEvents([...events, event]);
+    setExpanded(event.id);
+  };
+
+  const importTimeline = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setEvents(parseTimeline(await file.text()));
+      setImportError(null);
+      reset();
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Could not import this file");
+    }
+  };
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={() => setCollapsed(false)}
+        className="fixed top-4 right-4 z-40 rounded-full bg-fuchsia-700 px-4 py-2 text-sm font-semibold shadow-lg hover:bg-fuchsia-600"
+      >
+        Simulator {cursor}/{events.length}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-0 right-0 z-40 h-full w-full max-w-md bg-zinc-900 border-l border-fuchsia-800/60 shadow-2xl flex flex-col text-sm">
+      <div className="px-4 py-3 border-b border-zinc-800 flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-fuchsia-300">Agent simulator</h2>
+          <div className="flex items-center gap-3">
+            <button onClick={() => setCollapsed(true)} className="text-zinc-400 hover:text-zinc-200">
+              Hide
+            </button>
+            <button onClick={onExit} className="text-zinc-400 hover:text-zinc-200">
+              Exit
+            </button>
+          </div>
+        </div>
+        <select
+          value=""
+          onChange={(e) => loadScenario(e.target.value)}
+          className="rounded-lg bg-zinc-800 border border-zinc-700 px-2 py-1.5 text-zinc-200"
+        >
+          <option value="" disabled>
+            Load a scenario…
+          </option>
+          {SCENARIOS.map((s) => (
+            <option key={s.name} value={s.name} title={s.description}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPlaying((p) => !p)}
+            disabled={cursor >= events.length}
+            className="rounded-lg bg-fuchsia-700 px-3 py-1.5 font-medium hover:bg-fuchsia-600 disabled:opacity-40"
+          >
+            {playing ? "Pause" : "Play"}
+          </button>
+          <button
+            onClick={step}
+            disabled={playing || cursor >= events.length}
+            className="rounded-lg bg-zinc-700 px-3 py-1.5 hover:bg-zinc-600 disabled:opacity-40"
+          >
+            Step
+          </button>
+          <button onClick={reset} className="rounded-lg bg-zinc-700 px-3 py-1.5 hover:bg-zinc-600">
+            Rewind
+          </button>
+          <span className="ml-auto text-xs text-zinc-500">
+            {cursor}/{events.length} sent
+          </span>
+        </div>
+        <p className="text-xs text-zinc-500">
+          Rewinding doesn&apos;t undo UI state; reload the page for a clean slate.
+        </p>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto px-2 py-2 flex flex-col gap-1">
+        {events.map((event, i) => (
+          <li
+            key={event.id}
+            className={`rounded-lg border px-2 py-1.5 ${
+              i === cursor ? "border-fuchsia-600 bg-fuchsia-950/40" : i < cursor ? "border-zinc-800 opacity-60" : "border-zinc-800"
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs text-zinc-500">{i + 1}</span>
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={event.delayMs}
+                onChange={(e) => update(event.id, { delayMs: Math.max(0, Number(e.target.value) || 0) })}
+                title="Delay after the previous event (ms)"
+                className="w-16 rounded bg-zinc-800 border border-zinc-700 px-1 py-0.5 text-xs"
+              />
+              <select
+                value={event.topic}
+                onChange={(e) => update(event.id, { topic: e.target.value })}
+                className="rounded bg-zinc-800 border border-zinc-700 px-1 py-0.5 text-xs"
+              >
+                {[...new Set([...TOPICS, event.topic])].map((topic) => (
+                  <option key={topic} value={topic}>
+                    {topic}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                className="flex-1 truncate text-left text-xs text-zinc-300 hover:text-white"
+                title={event.note}
+              >
+                {event.note || event.payload.match(/"type":\s*"([^"]*)"/)?.[1] || "(no type)"}
+              </button>
+              <button onClick={() => inject(event)} className="text-xs text-fuchsia-300 hover:text-fuchsia-200">
+                Send
+              </button>
+            </div>
+            {expanded === event.id && (
+              <div className="mt-2 flex flex-col gap-1.5">
+                <input
+                  value={event.note ?? ""}
+                  onChange={(e) => update(event.id, { note: e.target.value || undefined })}
+                  placeholder="Note"
+                  className="rounded bg-zinc-800 border border-zinc-700 px-2 py-1 text-xs"
+                />
+                <textarea
+                  value={event.payload}
+                  onChange={(e) => update(event.id, { payload: e.target.value })}
+                  rows={Math.min(16, event.payload.split("\n").length + 1)}
+                  spellCheck={false}
+                  className="rounded bg-zinc-950 border border-zinc-700 px-2 py-1 font-mono text-xs text-zinc-200"
+                />
+                <div className="flex items-center gap-3 text-xs text-zinc-400">
+                  <button onClick={() => move(i, -1)} className="hover:text-zinc-200">
+                    ↑ Up
+                  </button>
+                  <button onClick={() => move(i, 1)} className="hover:text-zinc-200">
+                    ↓ Down
+                  </button>
+                  <button onClick={() => duplicate(i)} className="hover:text-zinc-200">
+                    Duplicate
+                  </button>
+                  <button onClick={() => setCursor(i)} className="hover:text-zinc-200">
+                    Play from here
+                  </button>
+                  <button onClick={() => remove(i)} className="ml-auto text-red-400 hover:text-red-300">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="px-4 py-3 border-t border-zinc-800 flex items-center gap-3 text-xs">
+        <button onClick={addEvent} className="rounded-lg bg-zinc-700 px-3 py-1.5 hover:bg-zinc-600">
+          Add event
+        </button>
+        <button
+          onClick={() => downloadFile("simulator-timeline.json", JSON.stringify(events, null, 2), "application/json")}
+          className="text-zinc-400 hover:text-zinc-200"
+        >
+          Export
+        </button>
+        <label className="text-zinc-400 hover:text-zinc-200 cursor-pointer">
+          Import
+          <input type="file" accept=".json,application/json" onChange={importTimeline} className="hidden" />
+        </label>
+        {importError && <span className="text-red-400">{importError}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useMediaDeviceSelect, useRoomContext } from "@livekit/components-react";
+import { Track, supportsAudioOutputSelection } from "livekit-client";
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  toCaptureOptions,
+  updateAudioSettings,
+  useAudioSettings,
+  type AudioSettings,
+} from "@/lib/audio-settings";
+
+const PROCESSING: { key: "noiseSuppression" | "echoCancellation" | "autoGainControl"; label: string; hint: string }[] = [
+  { key: "noiseSuppression", label: "Noise suppression", hint: "Filters out fans, hoods and sizzling" },
+  { key: "echoCancellation", label: "Echo cancellation", hint: "Keeps Chef Claude's voice out of your mic" },
+  { key: "autoGainControl", label: "Auto gain", hint: "Evens out your volume as you move around" },
+];
+
+function DeviceSelect({
+  label,
+  devices,
+  activeDeviceId,
+  onChange,
+}: {
+  label: string;
+  devices: MediaDeviceInfo[];
+  activeDeviceId: string;
+  onChange: (deviceId: string) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-xs uppercase tracking-wide text-zinc-500">{label}</span>
+      <select
+        value={activeDeviceId}
+        onChange={(e) => onChange(e.target.value)}
+        className="rounded-lg bg-zinc-900 border border-zinc-700 px-3 py-2 text-sm text-zinc-200"
+      >
+        {devices.length === 0 && <option value="">System default</option>}
+        {devices.map((device, i) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${label} ${i + 1}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/** Device pickers, browser audio processing and push-to-talk for the current room. */
+export default function AudioSettingsPanel({ onClose }: { onClose: () => void }) {
+  const room = useRoomContext();
+  const settings = useAudioSettings() ?? DEFAULT_AUDIO_SETTINGS;
+  const onError = (err: Error) => console.warn("[audio] device selection failed", err);
+  const input = useMediaDeviceSelect({ kind: "audioinput", room, onError });
+  const output = useMediaDeviceSelect({ kind: "audiooutput", room, onError });
+
+  const selectInput = async (deviceId: string) => {
+    updateAudioSettings({ inputDeviceId: deviceId });
+    await input.setActiveMediaDevice(deviceId);
+  };
+
+  const selectOutput = async (deviceId: string) => {
+    updateAudioSettings({ outputDeviceId: deviceId });
+    await output.setActiveMediaDevice(deviceId);
+  };
+
+  // Constraints only take effect on a fresh capture, so restart the live mic
+  const setProcessing = async (changes: Partial<AudioSettings>) => {
+    updateAudioSettings(changes);
+    const track = room.localParticipant.getTrackPublication(Track.Source.Microphone)?.audioTrack;
+    if (!track) return;
+    try {
+      await track.restartTrack(toCaptureOptions({ ...settings, ...changes }));
+    } catch (err) {
+      console.warn("[audio] failed to apply processing settings", err);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md rounded-2xl bg-zinc-800 border border-zinc-700 px-5 py-4 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-zinc-200">Audio settings</h3>
+        <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 text-sm">
+          Done
+        </button>
+      </div>
+
+      <DeviceSelect
+        label="Microphone"
+        devices={input.devices}
+        activeDeviceId={input.activeDeviceId}
+        onChange={selectInput}
+      />
+      {supportsAudioOutputSelection() && (
+        <DeviceSelect
+          label="Speaker"
+          devices={output.devices}
+          activeDeviceId={output.activeDeviceId}
+          onChange={selectOutput}
+        />
+      )}
+
+      <div className="flex flex-col gap-2">
+        {PROCESSING.map(({ key, label, hint }) => (
+          <label key={key} className="flex items-center justify-between gap-3 cursor-pointer">
+            <span className="flex flex-col">
+              <span className="text-sm text-zinc-200">{label}</span>
+              <span className="text-xs text-zinc-500">{hint}</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(e) => setProcessing({ [key]: e.target.checked })}
+              className="w-4 h-4 accent-orange-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between gap-3 cursor-pointer border-t border-zinc-700/50 pt-3">
+        <span className="flex flex-col">
+          <span className="text-sm text-zinc-200">Push to talk</span>
+          <span className="text-xs text-zinc-500">Mic is off until you hold the talk button or the space bar</span>
+        </span>
+        <input
+          type="checkbox"
+          checked={settings.pushToTalk}
+          onChange={(e) => updateAudioSettings({ pushToTalk: e.target.checked })}
+          className="w-4 h-4 accent-orange-500"
+        />
+      </label>
+    </div>
+  );
+}
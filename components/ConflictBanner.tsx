@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import type { RecipeConflict } from "@/lib/allergens";
+
+/** Warns about ingredients that clash with the user's profile, with a one-tap swap request. */
+export default function ConflictBanner({
+  conflicts,
+  onRequestSubstitution,
+}: {
+  conflicts: RecipeConflict[];
+  onRequestSubstitution?: (conflicts: RecipeConflict[]) => void;
+}) {
+  // Remember which set we asked about, so a new recipe can be asked about again
+  const [requestedFor, setRequestedFor] = useState<RecipeConflict[] | null>(null);
+  if (conflicts.length === 0) return null;
+  const reasons = [...new Set(conflicts.flatMap((c) => c.conflicts.map((conflict) => conflict.reason)))];
+
+  return (
+    <div className="mx-5 mt-3 rounded-lg border border-red-700/50 bg-red-900/20 px-3 py-2.5 text-sm">
+      <p className="text-red-200 font-medium flex items-center gap-1.5">
+        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="shrink-0">
+          <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3" />
+          <path d="M12 9v4" />
+          <path d="M12 17h.01" />
+        </svg>
+        {conflicts.length} ingredient{conflicts.length !== 1 ? "s" : ""} conflict with your {reasons.join(", ")}
+      </p>
+      <p className="text-xs text-red-300/80 mt-1">
+        {conflicts.map((c) => c.conflicts[0].matched).join(", ")}
+      </p>
+      {onRequestSubstitution && (
+        <button
+          onClick={() => {
+            setRequestedFor(conflicts);
+            onRequestSubstitution(conflicts);
+          }}
+          disabled={requestedFor === conflicts}
+          className="mt-2 rounded-md bg-red-800/50 px-2.5 py-1 text-xs text-red-100 hover:bg-red-700/60 disabled:opacity-50 transition-colors"
+        >
+          {requestedFor === conflicts ? "Asked for substitutions" : "Ask for substitutions"}
+        </button>
+      )}
+    </div>
+  );
+}
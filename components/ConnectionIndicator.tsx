@@ -0,0 +1,31 @@
+"use client";
+
+import { useConnectionQualityIndicator, useLocalParticipant } from "@livekit/components-react";
+import { ConnectionQuality } from "livekit-client";
+
+const QUALITY: Record<ConnectionQuality, { bars: number; color: string; label: string }> = {
+  [ConnectionQuality.Excellent]: { bars: 3, color: "bg-emerald-400", label: "Excellent connection" },
+  [ConnectionQuality.Good]: { bars: 2, color: "bg-emerald-400", label: "Good connection" },
+  [ConnectionQuality.Poor]: { bars: 1, color: "bg-amber-400", label: "Poor connection" },
+  [ConnectionQuality.Lost]: { bars: 0, color: "bg-red-500", label: "Connection lost" },
+  [ConnectionQuality.Unknown]: { bars: 0, color: "bg-zinc-500", label: "Checking connection" },
+};
+
+/** Signal-strength bars for our own connection to the room. */
+export default function ConnectionIndicator() {
+  const { localParticipant } = useLocalParticipant();
+  const { quality } = useConnectionQualityIndicator({ participant: localParticipant });
+  const { bars, color, label } = QUALITY[quality];
+
+  return (
+    <div className="flex items-end gap-0.5 h-4" title={label} aria-label={label}>
+      {[1, 2, 3].map((bar) => (
+        <span
+          key={bar}
+          className={`w-1 rounded-sm ${bar <= bars ? color : "bg-zinc-700"}`}
+          style={{ height: `${bar * 33}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useIsSpeaking, useParticipants } from "@livekit/components-react";
+import type { Participant } from "livekit-client";
+import { useEffect, useRef, useState } from "react";
+import { inviteLink } from "@/lib/connection";
+import type { ParticipantRole } from "@/lib/protocol";
+
+function participantLabel(participant: Participant): string {
+  if (participant.isAgent) return "Chef Claude";
+  return participant.name || (roleOf(participant) === "host" ? "Host" : "Guest");
+}
+
+function roleOf(participant: Participant): ParticipantRole | undefined {
+  const role = participant.attributes.role;
+  return role === "host" || role === "guest" ? role : undefined;
+}
+
+function ParticipantRow({ participant }: { participant: Participant }) {
+  const speaking = useIsSpeaking(participant);
+  const role = roleOf(participant);
+  return (
+    <li className="flex items-center gap-3 py-1.5">
+      <span
+        className={`w-2.5 h-2.5 rounded-full shrink-0 ${
+          speaking ? "bg-emerald-400" : participant.isAgent ? "bg-orange-500" : "bg-zinc-600"
+        }`}
+      />
+      <span className="text-sm text-zinc-200 truncate">
+        {participantLabel(participant)}
+        {participant.isLocal && <span className="text-zinc-500"> (you)</span>}
+      </span>
+      {role && !participant.isAgent && (
+        <span className="ml-auto text-[10px] uppercase tracking-wide text-zinc-500">{role}</span>
+      )}
+    </li>
+  );
+}
+
+/** Who's in the room, and a link for inviting another cook. */
+export default function CookTogetherPanel({ joinCode, onClose }: { joinCode: string; onClose: () => void }) {
+  const participants = useParticipants();
+  const [status, setStatus] = useState<string | null>(null);
+  const statusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const link = inviteLink(joinCode);
+  const canShare = typeof navigator !== "undefined" && "share" in navigator;
+
+  useEffect(() => () => {
+    if (statusTimeoutRef.current) clearTimeout(statusTimeoutRef.current);
+  }, []);
+
+  const flash = (message: string) => {
+    setStatus(message);
+    if (statusTimeoutRef.current) clearTimeout(statusTimeoutRef.current);
+    statusTimeoutRef.current = setTimeout(() => setStatus(null), 2000);
+  };
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      flash("Copied");
+    } catch (err) {
+      console.warn("[session] clipboard write failed", err);
+      flash("Couldn't copy");
+    }
+  };
+
+  const share = async () => {
+    try {
+      await navigator.share({ title: "Cook with me", text: "Join my Chef Claude session", url: link });
+    } catch (err) {
+      // AbortError just means the user closed the share sheet
+      if ((err as Error).name !== "AbortError") {
+        console.warn("[session] share failed", err);
+        flash("Couldn't share");
+      }
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md rounded-2xl bg-zinc-800 border border-zinc-700 px-5 py-4 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-zinc-200">Cook together</h3>
+        <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 text-sm">
+          Done
+        </button>
+      </div>
+
+      <ul className="flex flex-col">
+        {participants.map((participant) => (
+          <ParticipantRow key={participant.identity} participant={participant} />
+        ))}
+      </ul>
+
+      <div className="flex flex-col gap-2 border-t border-zinc-700/50 pt-3">
+        <p className="text-xs text-zinc-400">
+          Anyone with this link joins this kitchen and sees the same recipe, step and grocery list.
+        </p>
+        <input
+          readOnly
+          value={link}
+          onFocus={(e) => e.target.select()}
+          className="rounded-lg bg-zinc-900 border border-zinc-700 px-3 py-2 text-xs text-zinc-300 font-mono"
+        />
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={() => copy(link)}
+            className="rounded-lg bg-orange-600 px-3 py-1.5 font-medium hover:bg-orange-700 transition-colors"
+          >
+            Copy link
+          </button>
+          <button
+            onClick={() => copy(joinCode)}
+            className="rounded-lg bg-zinc-700 px-3 py-1.5 font-medium hover:bg-zinc-600 transition-colors"
+          >
+            Copy code
+          </button>
+          {canShare && (
+            <button
+              onClick={share}
+              className="rounded-lg bg-zinc-700 px-3 py-1.5 font-medium hover:bg-zinc-600 transition-colors"
+            >
+              Share
+            </button>
+          )}
+          {status && <span className="ml-auto text-zinc-400">{status}</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import StepTimerChips from "@/components/StepTimerChips";
+import type { StepDuration } from "@/lib/durations";
+import { formatTimeLeft } from "@/lib/timers";
+import type { Recipe, Timer } from "@/lib/types";
+import { useWakeLock } from "@/lib/wake-lock";
+
+// Horizontal travel (px) before a touch counts as a swipe
+const SWIPE_THRESHOLD = 60;
+
+export default function CookingMode({
+  recipe,
+  timers,
+  agentState,
+  onStepSelect,
+  onPauseTimer,
+  onResumeTimer,
+  onStartTimer,
+  onExit,
+  pushToTalk,
+}: {
+  recipe: Recipe;
+  timers: Timer[];
+  agentState: string;
+  onStepSelect: (stepNumber: number) => void;
+  onPauseTimer: (id: string) => void;
+  onResumeTimer: (id: string) => void;
+  onStartTimer: (stepNumber: number, duration: StepDuration) => void;
+  onExit: () => void;
+  pushToTalk?: { talking: boolean; onStart: () => void; onStop: () => void };
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+  const onExitRef = useRef(onExit);
+  const stepNumber = recipe.currentStep ?? 1;
+  const step = recipe.steps[stepNumber - 1];
+  const nextStep = recipe.steps[stepNumber];
+  const total = recipe.steps.length;
+
+  useWakeLock(true);
+
+  useEffect(() => {
+    onExitRef.current = onExit;
+  }, [onExit]);
+
+  // Go full screen while cooking; leaving full screen (e.g. Esc) exits the mode
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el?.requestFullscreen) return;
+    el.requestFullscreen().catch(() => {
+      // Not allowed (e.g. iOS Safari); the fixed overlay still covers the page
+    });
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) onExitRef.current();
+    };
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => {
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  // Space is the talk key in push-to-talk mode
+  const spaceAdvances = !pushToTalk;
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const next = e.key === "ArrowRight" || e.key === "ArrowDown" || e.key === "PageDown";
+      if (next || (e.key === " " && spaceAdvances)) {
+        e.preventDefault();
+        if (stepNumber < total) onStepSelect(stepNumber + 1);
+      } else if (e.key === "ArrowLeft" || e.key === "ArrowUp" || e.key === "PageUp") {
+        e.preventDefault();
+        if (stepNumber > 1) onStepSelect(stepNumber - 1);
+      } else if (e.key === "Escape") {
+        onExit();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [stepNumber, total, onStepSelect, onExit, spaceAdvances]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    const touch = e.touches[0];
+    touchStartRef.current = { x: touch.clientX, y: touch.clientY };
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (!start) return;
+    const touch = e.changedTouches[0];
+    const dx = touch.clientX - start.x;
+    const dy = touch.clientY - start.y;
+    if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) return;
+    if (dx < 0 && stepNumber < total) onStepSelect(stepNumber + 1);
+    if (dx > 0 && stepNumber > 1) onStepSelect(stepNumber - 1);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed inset-0 z-50 flex flex-col bg-zinc-950 text-white select-none"
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+    >
+      {/* Header: title, progress and exit */}
+      <div className="flex items-center justify-between gap-4 px-6 pt-5">
+        <div className="min-w-0">
+          <p className="text-sm text-zinc-500 truncate">{recipe.title}</p>
+          <p className="text-lg font-semibold text-orange-400">
+            Step {stepNumber} of {total}
+          </p>
+        </div>
+        <button
+          onClick={onExit}
+          className="rounded-full bg-zinc-800 px-4 py-2 text-sm text-zinc-300 hover:bg-zinc-700 transition-colors shrink-0"
+        >
+          Exit cooking mode
+        </button>
+      </div>
+      <div className="mx-6 mt-3 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+        <div
+          className="h-full bg-orange-500 transition-all duration-300"
+          style={{ width: `${(stepNumber / Math.max(total, 1)) * 100}%` }}
+        />
+      </div>
+
+      {/* Active timers */}
+      {timers.length > 0 && (
+        <div className="flex flex-wrap gap-3 px-6 pt-4">
+          {timers.map((timer) => {
+            const isPaused = timer.pausedAt !== undefined;
+            return (
+              <button
+                key={timer.id}
+                onClick={() => (isPaused ? onResumeTimer(timer.id) : onPauseTimer(timer.id))}
+                className="flex items-center gap-3 rounded-xl bg-zinc-800/90 border border-zinc-700 px-4 py-2"
+                title={isPaused ? "Resume timer" : "Pause timer"}
+              >
+                <span className="text-zinc-300">{timer.label}</span>
+                <span
+                  className={`text-3xl font-mono tabular-nums ${
+                    isPaused ? "text-zinc-500 animate-pulse" : "text-white"
+                  }`}
+                >
+                  {formatTimeLeft(timer)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Current step */}
+      <div className="flex-1 flex flex-col justify-center px-6 md:px-16 overflow-y-auto">
+        <p className="text-4xl md:text-6xl font-semibold leading-tight">{step}</p>
+        {step && (
+          <StepTimerChips step={step} onStart={(duration) => onStartTimer(stepNumber, duration)} large />
+        )}
+      </div>
+
+      {/* Next step preview and navigation */}
+      <div className="px-6 pb-6 flex flex-col gap-4">
+        {nextStep && (
+          <div className="rounded-xl bg-zinc-900 border border-zinc-800 px-5 py-4">
+            <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Next</p>
+            <p className="text-xl text-zinc-300 line-clamp-2">{nextStep}</p>
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => onStepSelect(stepNumber - 1)}
+            disabled={stepNumber <= 1}
+            className="rounded-full bg-zinc-800 px-8 py-4 text-xl hover:bg-zinc-700 disabled:opacity-30 transition-colors"
+          >
+            ← Back
+          </button>
+          {pushToTalk ? (
+            <button
+              onPointerDown={pushToTalk.onStart}
+              onPointerUp={pushToTalk.onStop}
+              onPointerLeave={() => pushToTalk.talking && pushToTalk.onStop()}
+              onPointerCancel={pushToTalk.onStop}
+              onContextMenu={(e) => e.preventDefault()}
+              className={`rounded-full px-6 py-4 text-sm capitalize touch-none select-none transition-colors ${
+                pushToTalk.talking ? "bg-orange-600 text-white" : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+              }`}
+            >
+              {agentState}
+            </button>
+          ) : (
+            <span className="text-sm capitalize text-zinc-500">{agentState}</span>
+          )}
+          <button
+            onClick={() => onStepSelect(stepNumber + 1)}
+            disabled={stepNumber >= total}
+            className="rounded-full bg-orange-600 px-8 py-4 text-xl font-semibold hover:bg-orange-700 disabled:opacity-30 transition-colors"
+          >
+            Next →
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
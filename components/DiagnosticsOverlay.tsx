@@ -0,0 +1,236 @@
+"use client";
+
+import { useRoomContext } from "@livekit/components-react";
+import { LocalAudioTrack, LocalVideoTrack, Track } from "livekit-client";
+import { useEffect, useRef, useState } from "react";
+import { diagnosticsSnapshot, median, turnTimings, type DiagnosticsSnapshot } from "@/lib/diagnostics";
+
+const POLL_INTERVAL_MS = 1000;
+const SHOWN_TRANSITIONS = 8;
+const SHOWN_TURNS = 6;
+
+interface TrackStatsRow {
+  label: string;
+  detail?: string; // resolution and frame rate for video layers
+  kbps?: number;
+  packetsLost?: number;
+  jitterMs?: number;
+  roundTripMs?: number;
+  limitedBy?: string;
+}
+
+function formatMs(ms: number | undefined): string {
+  if (ms === undefined) return "–";
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function toMs(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="flex flex-col gap-1">
+      <h3 className="text-[10px] uppercase tracking-wide text-zinc-500">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * Live latency and connection numbers for telling a slow network from a slow
+ * agent: agent state changes, per-turn timings, data-channel traffic and
+ * WebRTC stats for our mic and camera.
+ */
+export default function DiagnosticsOverlay({ onClose }: { onClose: () => void }) {
+  const room = useRoomContext();
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot>(() => diagnosticsSnapshot());
+  const [tracks, setTracks] = useState<TrackStatsRow[]>([]);
+  // Previous byte counts per stream, for turning totals into bitrates
+  const bytesRef = useRef(new Map<string, { bytes: number; timestamp: number }>());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const bitrate = (key: string, bytes: number | undefined, timestamp: number) => {
+      if (bytes === undefined) return undefined;
+      const previous = bytesRef.current.get(key);
+      bytesRef.current.set(key, { bytes, timestamp });
+      if (!previous || timestamp <= previous.timestamp) return undefined;
+      return ((bytes - previous.bytes) * 8) / (timestamp - previous.timestamp); // bits per ms = kbps
+    };
+
+    const collectTrackStats = async (): Promise<TrackStatsRow[]> => {
+      const rows: TrackStatsRow[] = [];
+      const mic = room.localParticipant.getTrackPublication(Track.Source.Microphone);
+      if (!mic?.track) {
+        rows.push({ label: "Mic", detail: "not published" });
+      } else if (mic.isMuted) {
+        rows.push({ label: "Mic", detail: "muted" });
+      } else if (mic.track instanceof LocalAudioTrack) {
+        const stats = await mic.track.getSenderStats();
+        rows.push({
+          label: "Mic",
+          kbps: stats && bitrate("mic", stats.bytesSent, stats.timestamp),
+          packetsLost: stats?.packetsLost,
+          jitterMs: toMs(stats?.jitter),
+          roundTripMs: toMs(stats?.roundTripTime),
+        });
+      }
+
+      const camera = room.localParticipant.getTrackPublication(Track.Source.Camera);
+      if (!camera?.track || camera.isMuted) {
+        rows.push({ label: "Camera", detail: "off" });
+      } else if (camera.track instanceof LocalVideoTrack) {
+        // One row per simulcast layer
+        for (const layer of await camera.track.getSenderStats()) {
+          rows.push({
+            label: layer.rid ? `Camera ${layer.rid}` : "Camera",
+            detail: `${layer.frameWidth ?? "?"}×${layer.frameHeight ?? "?"} @ ${Math.round(layer.framesPerSecond ?? 0)} fps`,
+            kbps: bitrate(`camera-${layer.rid}`, layer.bytesSent, layer.timestamp),
+            packetsLost: layer.packetsLost,
+            jitterMs: toMs(layer.jitter),
+            roundTripMs: toMs(layer.roundTripTime),
+            limitedBy:
+              layer.qualityLimitationReason && layer.qualityLimitationReason !== "none"
+                ? layer.qualityLimitationReason
+                : undefined,
+          });
+        }
+      }
+      return rows;
+    };
+
+    const poll = async () => {
+      setSnapshot(diagnosticsSnapshot());
+      try {
+        const rows = await collectTrackStats();
+        if (!cancelled) setTracks(rows);
+      } catch (err) {
+        console.warn("[diagnostics] failed to read track stats", err);
+      }
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [room]);
+
+  const { now, transitions, turns, rates, totals } = snapshot;
+  const current = transitions.at(-1);
+  // Earlier states, newest first, with how long each one lasted
+  const history = transitions
+    .slice(-SHOWN_TRANSITIONS - 1)
+    .map((t, i, shown) => ({ ...t, durationMs: (shown[i + 1]?.at ?? now) - t.at }))
+    .slice(0, -1)
+    .reverse();
+  const timings = turns.map(turnTimings);
+  const firstAudio = timings.flatMap((t) => (t.firstAudioMs === undefined ? [] : [t.firstAudioMs]));
+  const thinking = timings.flatMap((t) => (t.thinkingMs === undefined ? [] : [t.thinkingMs]));
+
+  return (
+    <div className="absolute top-8 left-2 z-30 w-80 max-h-[75vh] overflow-y-auto rounded-xl bg-zinc-950/95 border border-zinc-700 shadow-2xl px-3 py-2 flex flex-col gap-3 text-xs">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-zinc-200">Diagnostics</h2>
+        <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200">
+          Close
+        </button>
+      </div>
+
+      <Section title="Agent state">
+        <p className="text-zinc-200">
+          <span className="capitalize">{current?.state ?? "unknown"}</span>
+          {current && <span className="text-zinc-500"> for {formatMs(now - current.at)}</span>}
+        </p>
+        <ol className="font-mono text-zinc-400">
+          {history.map((t) => (
+            <li key={t.at} className="flex justify-between">
+              <span>{t.state}</span>
+              <span>{formatMs(t.durationMs)}</span>
+            </li>
+          ))}
+        </ol>
+      </Section>
+
+      <Section title="Turns">
+        <p className="text-zinc-400">
+          Median first audio <span className="text-zinc-200">{formatMs(median(firstAudio))}</span>, thinking{" "}
+          <span className="text-zinc-200">{formatMs(median(thinking))}</span> over {firstAudio.length} turn
+          {firstAudio.length !== 1 ? "s" : ""}
+        </p>
+        {timings.length > 0 && (
+          <table className="font-mono text-zinc-400 text-right">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="font-normal" title="You stopped talking → agent thinking">End</th>
+                <th className="font-normal">Think</th>
+                <th className="font-normal" title="You stopped talking → agent audio">Audio</th>
+                <th className="font-normal">Spoke</th>
+              </tr>
+            </thead>
+            <tbody>
+              {timings.slice(-SHOWN_TURNS).reverse().map((t, i) => (
+                <tr key={i}>
+                  <td>{formatMs(t.endOfSpeechMs)}</td>
+                  <td>{formatMs(t.thinkingMs)}</td>
+                  <td className="text-zinc-200">{formatMs(t.firstAudioMs)}</td>
+                  <td>{formatMs(t.speakingMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Section>
+
+      <Section title="Data messages (last 10 s)">
+        {rates.length === 0 ? (
+          <p className="text-zinc-500">None</p>
+        ) : (
+          <table className="font-mono text-zinc-400 text-right">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="font-normal text-left">Topic</th>
+                <th className="font-normal">In/s</th>
+                <th className="font-normal">Out/s</th>
+                <th className="font-normal">B/s</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((r) => (
+                <tr key={r.topic}>
+                  <td className="text-left text-zinc-200">{r.topic}</td>
+                  <td>{r.received.toFixed(1)}</td>
+                  <td>{r.published.toFixed(1)}</td>
+                  <td>{Math.round(r.bytesPerSecond)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-zinc-500">
+          {totals.received} received, {totals.published} published this session
+        </p>
+      </Section>
+
+      <Section title="Tracks">
+        {tracks.map((t) => (
+          <div key={t.label} className="font-mono text-zinc-400">
+            <p className="text-zinc-200">
+              {t.label}
+              {t.detail && <span className="text-zinc-500"> {t.detail}</span>}
+            </p>
+            {(t.kbps !== undefined || t.roundTripMs !== undefined) && (
+              <p>
+                {t.kbps !== undefined && `${Math.round(t.kbps)} kbps · `}
+                rtt {formatMs(t.roundTripMs)} · jitter {formatMs(t.jitterMs)} · lost {t.packetsLost ?? "–"}
+              </p>
+            )}
+            {t.limitedBy && <p className="text-amber-400">limited by {t.limitedBy}</p>}
+          </div>
+        ))}
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { downloadFile } from "@/lib/download";
+import { exportGroceryList, type GroceryExportFormat } from "@/lib/grocery-export";
+import type { GroceryItem } from "@/lib/types";
+
+const FORMATS: { format: GroceryExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: "text", label: "Text", extension: "txt", mimeType: "text/plain" },
+  { format: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown" },
+  { format: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+];
+
+export default function GroceryExportPanel({
+  items,
+  view,
+}: {
+  items: GroceryItem[];
+  view: "recipe" | "combined";
+}) {
+  const [format, setFormat] = useState<GroceryExportFormat>("text");
+  const [uncheckedOnly, setUncheckedOnly] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const statusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { extension, mimeType } = FORMATS.find((f) => f.format === format)!;
+  const canShare = typeof navigator !== "undefined" && "share" in navigator;
+
+  useEffect(() => () => {
+    if (statusTimeoutRef.current) clearTimeout(statusTimeoutRef.current);
+  }, []);
+
+  const flash = (message: string) => {
+    setStatus(message);
+    if (statusTimeoutRef.current) clearTimeout(statusTimeoutRef.current);
+    statusTimeoutRef.current = setTimeout(() => setStatus(null), 2000);
+  };
+
+  const contents = () => exportGroceryList(items, format, { view, uncheckedOnly });
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(contents());
+      flash("Copied");
+    } catch (err) {
+      console.warn("[grocery] clipboard write failed", err);
+      flash("Couldn't copy");
+    }
+  };
+
+  const share = async () => {
+    const text = contents();
+    // CSV is only useful as a file; share it as one where the browser allows
+    const file = new File([text], `grocery-list.${extension}`, { type: mimeType });
+    const data: ShareData =
+      format === "csv" && navigator.canShare?.({ files: [file] })
+        ? { title: "Grocery list", files: [file] }
+        : { title: "Grocery list", text };
+    try {
+      await navigator.share(data);
+    } catch (err) {
+      // AbortError just means the user closed the share sheet
+      if ((err as Error).name !== "AbortError") {
+        console.warn("[grocery] share failed", err);
+        flash("Couldn't share");
+      }
+    }
+  };
+
+  return (
+    <div className="px-5 py-3 border-b border-zinc-700/50 flex flex-col gap-2.5 text-xs">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex rounded-lg border border-zinc-700 overflow-hidden">
+          {FORMATS.map((f) => (
+            <button
+              key={f.format}
+              onClick={() => setFormat(f.format)}
+              className={`px-2.5 py-1 transition-colors ${
+                format === f.format ? "bg-emerald-600/20 text-emerald-300" : "text-zinc-400 hover:text-zinc-200"
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-zinc-400">
+          <input
+            type="checkbox"
+            checked={uncheckedOnly}
+            onChange={(e) => setUncheckedOnly(e.target.checked)}
+            className="accent-emerald-600"
+          />
+          Unchecked only
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={copy}
+          className="rounded-md bg-zinc-700/60 px-2.5 py-1 text-zinc-200 hover:bg-zinc-600 transition-colors"
+        >
+          Copy
+        </button>
+        {canShare && (
+          <button
+            onClick={share}
+            className="rounded-md bg-zinc-700/60 px-2.5 py-1 text-zinc-200 hover:bg-zinc-600 transition-colors"
+          >
+            Share
+          </button>
+        )}
+        <button
+          onClick={() => downloadFile(`grocery-list.${extension}`, contents(), mimeType)}
+          className="rounded-md bg-zinc-700/60 px-2.5 py-1 text-zinc-200 hover:bg-zinc-600 transition-colors"
+        >
+          Download
+        </button>
+        {status && <span className="text-emerald-400 ml-1">{status}</span>}
+      </div>
+    </div>
+  );
+}
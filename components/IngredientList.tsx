@@ -0,0 +1,65 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { recipeConflicts } from "@/lib/allergens";
+import { formatIngredient, type UnitSystem } from "@/lib/ingredients";
+import { useProfile } from "@/lib/profile";
+import type { Recipe } from "@/lib/types";
+
+/**
+ * Ingredients scaled to the recipe's chosen servings, with a units toggle.
+ * Ingredients that clash with the user's profile are flagged.
+ */
+export default function IngredientList({ recipe }: { recipe: Recipe }) {
+  const profile = useProfile();
+  // Until the user picks here, follow the units preferred in their profile
+  const [chosenUnits, setUnits] = useState<UnitSystem | null | undefined>(undefined);
+  const units = chosenUnits === undefined ? profile?.units ?? null : chosenUnits;
+  const conflicts = useMemo(
+    () => new Map(recipeConflicts(recipe.ingredients, profile).map((c) => [c.ingredient, c.conflicts])),
+    [recipe.ingredients, profile],
+  );
+  const servings = recipe.scaledServings ?? recipe.servings;
+  const scale = servings / recipe.servings;
+
+  return (
+    <div className="px-5 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-zinc-500">
+          {scale !== 1 ? `Scaled from ${recipe.servings} serving${recipe.servings !== 1 ? "s" : ""}` : ""}
+        </span>
+        <div className="flex rounded-lg border border-zinc-700 overflow-hidden text-xs">
+          {([null, "metric", "imperial"] as const).map((system) => (
+            <button
+              key={system ?? "original"}
+              onClick={() => setUnits(system)}
+              className={`px-2.5 py-1 transition-colors ${
+                units === system ? "bg-orange-600/20 text-orange-300" : "text-zinc-400 hover:text-zinc-200"
+              }`}
+            >
+              {system === null ? "As written" : system === "metric" ? "Metric" : "Imperial"}
+            </button>
+          ))}
+        </div>
+      </div>
+      <ul className="space-y-2">
+        {recipe.ingredients.map((ingredient, i) => {
+          const clashes = conflicts.get(ingredient);
+          return (
+            <li key={i} className="flex items-start gap-3 text-sm">
+              <span className={`mt-1 w-1.5 h-1.5 rounded-full shrink-0 ${clashes ? "bg-red-500" : "bg-orange-400"}`} />
+              <span className={clashes ? "text-red-200" : "text-zinc-200"}>
+                {formatIngredient(ingredient, scale, units ?? undefined)}
+                {clashes && (
+                  <span className="block text-xs text-red-400/90">
+                    {clashes.map((c) => c.reason).join(", ")}
+                  </span>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
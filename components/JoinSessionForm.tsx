@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { parseInvite } from "@/lib/connection";
+import { getDisplayName, setDisplayName } from "@/lib/identity";
+
+/**
+ * Join another cook's session. With `joinCode` (from an invite link) only the
+ * name is asked for; otherwise the invite link or code is pasted in.
+ */
+export default function JoinSessionForm({
+  joinCode,
+  onJoin,
+  onCancel,
+}: {
+  joinCode?: string;
+  onJoin: (joinCode: string) => void;
+  onCancel: () => void;
+}) {
+  const [invite, setInvite] = useState("");
+  const [name, setName] = useState(() => getDisplayName() ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = joinCode ?? parseInvite(invite);
+    if (!code) {
+      setError("Paste the invite link or code you were sent.");
+      return;
+    }
+    setDisplayName(name);
+    onJoin(code);
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="w-full max-w-sm rounded-2xl bg-zinc-900 border border-zinc-800 px-5 py-4 flex flex-col gap-3"
+    >
+      <p className="text-base font-semibold text-zinc-200">
+        {joinCode ? "You've been invited to cook together" : "Join a friend's session"}
+      </p>
+      {!joinCode && (
+        <input
+          value={invite}
+          onChange={(e) => {
+            setInvite(e.target.value);
+            setError(null);
+          }}
+          placeholder="Invite link or code"
+          autoFocus
+          className="rounded-lg bg-zinc-800 border border-zinc-700 px-3 py-2 text-sm text-zinc-200"
+        />
+      )}
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Your name (shown to the others)"
+        maxLength={64}
+        autoFocus={Boolean(joinCode)}
+        className="rounded-lg bg-zinc-800 border border-zinc-700 px-3 py-2 text-sm text-zinc-200"
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          className="rounded-full bg-orange-600 px-6 py-2 font-semibold hover:bg-orange-700 transition-colors"
+        >
+          Join
+        </button>
+        <button type="button" onClick={onCancel} className="text-sm text-zinc-500 hover:text-zinc-300 transition-colors">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type { CookLogEntry } from "@/lib/cook-log";
+
+export default function PastNotesBanner({
+  entries,
+  onSend,
+  onDismiss,
+}: {
+  entries: CookLogEntry[];
+  onSend: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="w-full max-w-md rounded-2xl border border-orange-600/30 bg-orange-600/10 px-5 py-4">
+      <p className="text-sm font-medium text-orange-200">
+        You&apos;ve made this before — notes from last time
+      </p>
+      <ul className="mt-2 space-y-1.5">
+        {entries.slice(0, 3).map((entry) => (
+          <li key={entry.id} className="text-sm text-zinc-200">
+            <span className="text-xs text-zinc-500 mr-2">
+              {new Date(entry.startedAt).toLocaleDateString()}
+              {entry.rating ? ` · ${"★".repeat(entry.rating)}` : ""}
+            </span>
+            {entry.notes}
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-4 mt-3">
+        <button
+          onClick={onSend}
+          className="rounded-full bg-orange-600 px-4 py-1.5 text-sm font-semibold hover:bg-orange-700 transition-colors"
+        >
+          Tell Chef Claude
+        </button>
+        <button onClick={onDismiss} className="text-sm text-zinc-400 hover:text-zinc-200 transition-colors">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { createPortal } from "react-dom";
+import { formatIngredient } from "@/lib/ingredients";
+import type { Recipe } from "@/lib/types";
+
+/**
+ * Print-only rendering of a recipe. Portalled to <body> so it survives the
+ * app shell being hidden with `print:hidden`.
+ */
+export default function PrintableRecipe({ recipe }: { recipe: Recipe }) {
+  const servings = recipe.scaledServings ?? recipe.servings;
+  const scale = servings / recipe.servings;
+
+  return createPortal(
+    <article className="hidden print:block text-black bg-white p-8 font-serif max-w-3xl mx-auto">
+      <h1 className="text-3xl font-bold">{recipe.title}</h1>
+      <p className="mt-1 text-sm text-zinc-600">
+        {recipe.prepTimeMinutes > 0 && `${recipe.prepTimeMinutes} min · `}
+        {servings} serving{servings !== 1 ? "s" : ""} · {recipe.ingredients.length} ingredients ·{" "}
+        {recipe.steps.length} steps
+      </p>
+      {recipe.ogDescription && <p className="mt-3 italic">{recipe.ogDescription}</p>}
+      {recipe.tutorialUrl && (
+        <p className="mt-2 text-sm">
+          Tutorial: {recipe.ogTitle || recipe.tutorialTitle || recipe.tutorialUrl}
+          {recipe.tutorialSource && ` (${recipe.tutorialSource})`} — {recipe.tutorialUrl}
+        </p>
+      )}
+
+      <h2 className="mt-6 text-xl font-bold border-b border-zinc-400 pb-1">Ingredients</h2>
+      <ul className="mt-3 columns-2 gap-8 text-sm">
+        {recipe.ingredients.map((ingredient, i) => (
+          <li key={i} className="break-inside-avoid py-0.5 flex gap-2">
+            <span className="inline-block w-3 h-3 mt-1 border border-zinc-500 shrink-0" />
+            {formatIngredient(ingredient, scale)}
+          </li>
+        ))}
+      </ul>
+
+      <h2 className="mt-6 text-xl font-bold border-b border-zinc-400 pb-1">Steps</h2>
+      <ol className="mt-3 space-y-3">
+        {recipe.steps.map((step, i) => (
+          <li key={i} className="break-inside-avoid flex gap-3">
+            <span className="font-bold w-6 shrink-0">{i + 1}.</span>
+            <span>{step}</span>
+          </li>
+        ))}
+      </ol>
+    </article>,
+    document.body,
+  );
+}
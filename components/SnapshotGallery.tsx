@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+import type { Snapshot } from "@/lib/types";
+
+/** Progress photos from this session, labelled with the step they were taken on. */
+export default function SnapshotGallery({ snapshots }: { snapshots: Snapshot[] }) {
+  const [open, setOpen] = useState<Snapshot | null>(null);
+  if (snapshots.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-2xl border border-zinc-700 px-5 py-4">
+      <h3 className="text-base font-semibold text-white mb-3">Progress photos</h3>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {snapshots.map((snapshot) => (
+          <button
+            key={snapshot.id}
+            onClick={() => setOpen(snapshot)}
+            className="relative shrink-0 w-24 h-24 rounded-lg overflow-hidden border border-zinc-700 hover:border-orange-600/50 transition-colors"
+          >
+            <img src={snapshot.url} alt="" className="w-full h-full object-cover" />
+            <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-zinc-200 py-0.5">
+              {snapshot.step ? `Step ${snapshot.step}` : new Date(snapshot.takenAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-3 bg-black/90 p-6"
+          onClick={() => setOpen(null)}
+        >
+          <img src={open.url} alt="" className="max-w-full max-h-[80vh] rounded-lg" />
+          <p className="text-sm text-zinc-300">
+            {open.step ? `Step ${open.step} · ` : ""}
+            {new Date(open.takenAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
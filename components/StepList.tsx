@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import StepTimerChips from "@/components/StepTimerChips";
+import type { StepDuration } from "@/lib/durations";
+
+/**
+ * Numbered recipe steps. With `onStepSelect` the steps become navigable and
+ * the current one is highlighted and kept in view; with `onStartTimer` any
+ * durations in a step are offered as timers.
+ */
+export default function StepList({
+  steps,
+  currentStep,
+  onStepSelect,
+  onStartTimer,
+}: {
+  steps: string[];
+  currentStep?: number;
+  onStepSelect?: (stepNumber: number) => void;
+  onStartTimer?: (stepNumber: number, duration: StepDuration) => void;
+}) {
+  const stepRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  useEffect(() => {
+    if (currentStep && currentStep >= 1) {
+      stepRefs.current[currentStep - 1]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [currentStep]);
+
+  return (
+    <div className="px-5 py-4">
+      <ol className="space-y-3">
+        {steps.map((step, i) => {
+          const stepNum = i + 1;
+          const isCurrent = currentStep === stepNum;
+          const isPast = currentStep ? stepNum < currentStep : false;
+          return (
+            <li
+              key={i}
+              ref={(el) => { stepRefs.current[i] = el; }}
+              onClick={onStepSelect && (() => onStepSelect(stepNum))}
+              title={isCurrent || !onStepSelect ? undefined : `Go to step ${stepNum}`}
+              className={`flex gap-3 text-sm rounded-lg px-3 py-2.5 transition-all duration-300 ${
+                onStepSelect ? "cursor-pointer" : ""
+              } ${
+                isCurrent
+                  ? "bg-orange-600/15 border border-orange-600/30"
+                  : isPast
+                    ? "opacity-50 hover:opacity-80"
+                    : onStepSelect ? "hover:bg-zinc-700/30" : ""
+              }`}
+            >
+              <span
+                className={`flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold shrink-0 mt-0.5 transition-colors ${
+                  isCurrent
+                    ? "bg-orange-500 text-white"
+                    : isPast
+                      ? "bg-zinc-700 text-zinc-400"
+                      : "bg-orange-600/20 text-orange-400"
+                }`}
+              >
+                {isPast ? (
+                  <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                ) : (
+                  stepNum
+                )}
+              </span>
+              <div className={`leading-relaxed ${isCurrent ? "text-white font-medium" : "text-zinc-200"}`}>
+                {step}
+                {onStartTimer && (
+                  <StepTimerChips step={step} onStart={(duration) => onStartTimer(stepNum, duration)} />
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      {onStepSelect && (
+        <div className="flex items-center justify-between mt-4 pt-3 border-t border-zinc-700/50">
+          <button
+            onClick={() => onStepSelect((currentStep ?? 1) - 1)}
+            disabled={!currentStep || currentStep <= 1}
+            className="rounded-lg px-3 py-1.5 text-sm text-zinc-300 hover:bg-zinc-700/50 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          >
+            ← Previous
+          </button>
+          <span className="text-xs text-zinc-500">
+            {currentStep ? `Step ${currentStep} of ${steps.length}` : `${steps.length} steps`}
+          </span>
+          <button
+            onClick={() => onStepSelect(currentStep ? currentStep + 1 : 1)}
+            disabled={(currentStep ?? 0) >= steps.length}
+            className="rounded-lg px-3 py-1.5 text-sm font-medium text-orange-400 hover:bg-orange-600/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          >
+            {currentStep ? "Next →" : "Start →"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { findStepDurations, type StepDuration } from "@/lib/durations";
+
+/** Tappable timer suggestions for the durations mentioned in a step. */
+export default function StepTimerChips({
+  step,
+  onStart,
+  large,
+}: {
+  step: string;
+  onStart: (duration: StepDuration) => void;
+  large?: boolean;
+}) {
+  const durations = findStepDurations(step);
+  if (durations.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap ${large ? "gap-3 mt-4" : "gap-1.5 mt-2"}`}>
+      {durations.map((duration) => (
+        <button
+          key={duration.index}
+          onClick={(e) => {
+            e.stopPropagation(); // don't also select the step
+            onStart(duration);
+          }}
+          className={`flex items-center gap-1.5 rounded-full border border-orange-600/40 bg-orange-600/10 text-orange-300 hover:bg-orange-600/20 transition-colors ${
+            large ? "px-5 py-2.5 text-xl" : "px-2.5 py-0.5 text-xs"
+          }`}
+          title={`Start a ${duration.text} timer`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width={large ? 20 : 12} height={large ? 20 : 12} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="13" r="8" />
+            <path d="M12 9v4l2 2" />
+            <path d="M10 2h4" />
+          </svg>
+          {duration.text}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { TranscriptEntry } from "@/lib/types";
+
+export default function TranscriptPanel({
+  entries,
+  onSend,
+  onClose,
+}: {
+  entries: TranscriptEntry[];
+  onSend: (text: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const lastEntry = entries[entries.length - 1];
+
+  // Follow the conversation as new lines arrive or stream in
+  useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [entries.length, lastEntry?.text]);
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || sending) return;
+    setSending(true);
+    setSendError(null);
+    try {
+      await onSend(text);
+      setDraft("");
+    } catch (err) {
+      // Keep the draft so it can be sent again once reconnected
+      console.warn("[transcript] failed to send typed message", err);
+      setSendError("Couldn't send. Check your connection and try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-2xl border border-zinc-700 shadow-xl flex flex-col">
+      <div className="px-5 pt-4 pb-3 border-b border-zinc-700/50 flex items-center justify-between">
+        <h3 className="text-lg font-bold text-white">Conversation</h3>
+        <button
+          onClick={onClose}
+          className="text-zinc-500 hover:text-zinc-300 transition-colors p-1"
+          title="Hide conversation"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polyline points="18 15 12 9 6 15" />
+          </svg>
+        </button>
+      </div>
+
+      <div ref={listRef} className="max-h-72 overflow-y-auto px-4 py-3 flex flex-col gap-2">
+        {entries.length === 0 ? (
+          <p className="text-sm text-zinc-500 text-center py-6">
+            Nothing said yet. Speak, or type below.
+          </p>
+        ) : (
+          entries.map((entry) => (
+            <div
+              key={entry.id}
+              className={`max-w-[85%] rounded-xl px-3 py-2 text-sm ${
+                entry.speaker
+                  ? "self-start bg-sky-600/20 text-sky-50"
+                  : entry.role === "user"
+                    ? "self-end bg-orange-600/20 text-orange-50"
+                    : "self-start bg-zinc-700/60 text-zinc-100"
+              } ${entry.final === false && !entry.typed ? "opacity-70" : ""}`}
+            >
+              {entry.speaker && <span className="block text-[10px] text-sky-300 mb-0.5">{entry.speaker}</span>}
+              {entry.text}
+              {entry.typed && <span className="block text-[10px] text-zinc-400 mt-0.5">typed</span>}
+            </div>
+          ))
+        )}
+      </div>
+
+      {sendError && <p className="px-4 pt-2 text-xs text-red-400">{sendError}</p>}
+      <form onSubmit={send} className="flex items-center gap-2 px-4 pb-4 pt-2 border-t border-zinc-700/50">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Type a message…"
+          className="flex-1 rounded-lg bg-zinc-900 border border-zinc-700 px-3 py-2 text-sm text-white placeholder:text-zinc-500 focus:outline-none focus:border-orange-600/60"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || sending}
+          className="rounded-lg bg-orange-600 px-4 py-2 text-sm font-medium hover:bg-orange-700 disabled:opacity-40 transition-colors"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { findConflicts, recipeConflicts } from "./allergens";
+import { EMPTY_PROFILE } from "./profile";
+
+const glutenAllergy = { ...EMPTY_PROFILE, allergies: ["gluten"] };
+const glutenFree = { ...EMPTY_PROFILE, diet: ["gluten-free"] };
+
+describe("findConflicts", () => {
+  it("flags wheat for a gluten allergy", () => {
+    const ingredients = ["2 cups flour", "200 g spaghetti", "2 slices bread", "1/2 cup breadcrumbs", "2 tbsp soy sauce"];
+    expect(recipeConflicts(ingredients, glutenAllergy).map((c) => c.ingredient)).toEqual(ingredients);
+    expect(findConflicts("2 cups flour", glutenAllergy)).toEqual([{ reason: "gluten allergy", matched: "flour" }]);
+  });
+
+  it("flags the other gluten grains for a gluten allergy", () => {
+    expect(findConflicts("1 cup pearl barley", glutenAllergy)).toEqual([{ reason: "gluten allergy", matched: "barley" }]);
+  });
+
+  it("flags wheat and gluten grains for a gluten-free diet", () => {
+    expect(findConflicts("2 cups flour", glutenFree)).toEqual([{ reason: "gluten-free", matched: "flour" }]);
+    expect(findConflicts("1 bottle beer", glutenFree)).toEqual([{ reason: "gluten-free", matched: "beer" }]);
+  });
+
+  it("lets gluten-free substitutes through", () => {
+    for (const ingredient of ["1 cup rice flour", "100 g almond flour", "4 corn tortillas", "200 g rice noodles"]) {
+      expect(findConflicts(ingredient, glutenAllergy)).toEqual([]);
+      expect(findConflicts(ingredient, glutenFree)).toEqual([]);
+    }
+  });
+
+  it("matches allergies without a table entry literally", () => {
+    const profile = { ...EMPTY_PROFILE, allergies: ["Kiwi"] };
+    expect(findConflicts("2 kiwis, sliced", profile)).toEqual([{ reason: "Kiwi allergy", matched: "Kiwi" }]);
+  });
+});
@@ -0,0 +1,193 @@
+import type { CookingProfile } from "./profile";
+
+// Matches ingredient lines against the allergies and diets in the user's
+// profile. Categories list the common names an allergen hides behind; diets
+// are expressed as the categories they rule out.
+
+export interface ConflictCategory {
+  label: string;
+  aliases: string[];
+  except?: string[]; // phrases that contain an alias but are fine, e.g. "peanut butter" for dairy
+}
+
+export const CONFLICT_CATEGORIES: Record<string, ConflictCategory> = {
+  dairy: {
+    label: "dairy",
+    aliases: [
+      "milk", "butter", "buttermilk", "cream", "creme fraiche", "crème fraîche", "sour cream", "cheese",
+      "parmesan", "parmigiano", "pecorino", "mozzarella", "ricotta", "mascarpone", "feta", "cheddar",
+      "gruyere", "gruyère", "halloumi", "paneer", "ghee", "yogurt", "yoghurt", "kefir", "whey", "casein",
+      "custard", "ice cream",
+    ],
+    except: [
+      "peanut butter", "almond butter", "cashew butter", "nut butter", "cocoa butter", "apple butter",
+      "coconut milk", "coconut cream", "almond milk", "oat milk", "soy milk", "rice milk", "cream of tartar",
+      "butternut", "butter beans", "vegan butter", "vegan cheese", "dairy-free",
+    ],
+  },
+  eggs: {
+    label: "eggs",
+    aliases: ["egg", "egg yolk", "egg white", "mayonnaise", "mayo", "aioli", "meringue", "custard"],
+    except: ["eggplant", "egg-free", "vegan mayo"],
+  },
+  peanuts: {
+    label: "peanuts",
+    aliases: ["peanut", "peanut butter", "peanut oil", "groundnut", "satay"],
+  },
+  "tree nuts": {
+    label: "tree nuts",
+    aliases: [
+      "almond", "cashew", "walnut", "pecan", "pistachio", "hazelnut", "macadamia", "pine nut",
+      "brazil nut", "marzipan", "praline", "frangipane", "nutella", "pesto",
+    ],
+  },
+  fish: {
+    label: "fish",
+    aliases: [
+      "fish", "salmon", "tuna", "cod", "haddock", "halibut", "trout", "tilapia", "sardine", "anchovy",
+      "anchovies", "mackerel", "fish sauce", "worcestershire", "bonito", "dashi",
+    ],
+  },
+  shellfish: {
+    label: "shellfish",
+    aliases: [
+      "shrimp", "prawn", "crab", "lobster", "crayfish", "langoustine", "clam", "mussel", "oyster",
+      "scallop", "oyster sauce", "shrimp paste",
+    ],
+  },
+  soy: {
+    label: "soy",
+    aliases: ["soy", "soya", "soy sauce", "tamari", "tofu", "edamame", "miso", "tempeh", "soybean"],
+  },
+  wheat: {
+    label: "wheat",
+    aliases: [
+      "wheat", "flour", "bread", "breadcrumbs", "panko", "pasta", "spaghetti", "linguine", "fettuccine",
+      "penne", "macaroni", "noodle", "couscous", "bulgur", "semolina", "farro", "spelt", "seitan",
+      "tortilla", "pita", "soy sauce", "udon", "orzo",
+    ],
+    except: ["rice flour", "almond flour", "coconut flour", "chickpea flour", "corn tortilla", "rice noodle", "gluten-free"],
+  },
+  gluten: {
+    label: "gluten",
+    aliases: ["barley", "rye", "malt", "brewer's yeast", "beer"],
+  },
+  sesame: {
+    label: "sesame",
+    aliases: ["sesame", "sesame oil", "sesame seed", "tahini", "halva", "hummus", "za'atar", "gomashio"],
+  },
+  meat: {
+    label: "meat",
+    aliases: [
+      "beef", "steak", "veal", "lamb", "mutton", "goat", "venison", "mince", "ground beef", "oxtail",
+      "beef stock", "beef broth", "bone broth",
+    ],
+    except: ["mincemeat"],
+  },
+  pork: {
+    label: "pork",
+    aliases: [
+      "pork", "bacon", "ham", "pancetta", "prosciutto", "guanciale", "chorizo", "salami", "pepperoni",
+      "lard", "sausage",
+    ],
+  },
+  poultry: {
+    label: "poultry",
+    aliases: ["chicken", "turkey", "duck", "goose", "quail", "chicken stock", "chicken broth"],
+  },
+  gelatin: {
+    label: "gelatin",
+    aliases: ["gelatin", "gelatine"],
+  },
+  honey: {
+    label: "honey",
+    aliases: ["honey"],
+  },
+  alcohol: {
+    label: "alcohol",
+    aliases: ["wine", "beer", "rum", "vodka", "brandy", "cognac", "sherry", "bourbon", "whiskey", "whisky", "mirin", "sake"],
+    except: ["wine vinegar", "rice wine vinegar"],
+  },
+};
+
+/** Allergies that cover more than their own category, e.g. gluten is in wheat too. */
+export const ALLERGY_INCLUDES: Record<string, string[]> = {
+  gluten: ["wheat", "gluten"],
+};
+
+/** Categories each diet rules out. Diets not listed here aren't checked. */
+export const DIET_EXCLUSIONS: Record<string, string[]> = {
+  vegetarian: ["meat", "pork", "poultry", "fish", "shellfish", "gelatin"],
+  vegan: ["meat", "pork", "poultry", "fish", "shellfish", "gelatin", "dairy", "eggs", "honey"],
+  pescatarian: ["meat", "pork", "poultry", "gelatin"],
+  "gluten-free": ["wheat", "gluten"],
+  "dairy-free": ["dairy"],
+  halal: ["pork", "gelatin", "alcohol"],
+  kosher: ["pork", "shellfish"],
+};
+
+export interface IngredientConflict {
+  reason: string; // what in the profile it violates, e.g. "dairy allergy" or "vegan"
+  matched: string; // the word in the ingredient that triggered it
+}
+
+function pattern(alias: string): RegExp {
+  const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|[^\\p{L}])${escaped}(?:s|es)?(?![\\p{L}])`, "iu");
+}
+
+function findAlias(text: string, category: ConflictCategory): string | undefined {
+  let remaining = text;
+  for (const phrase of category.except ?? []) {
+    remaining = remaining.replace(pattern(phrase), " ");
+  }
+  // Longest first, so "sesame oil" is reported rather than "sesame"
+  return [...category.aliases].sort((a, b) => b.length - a.length).find((alias) => pattern(alias).test(remaining));
+}
+
+// Allergies without a table entry are matched literally
+function categoryFor(name: string): ConflictCategory {
+  return CONFLICT_CATEGORIES[name.toLowerCase()] ?? { label: name, aliases: [name] };
+}
+
+export function findConflicts(ingredient: string, profile: CookingProfile): IngredientConflict[] {
+  const conflicts: IngredientConflict[] = [];
+  for (const allergy of profile.allergies) {
+    const { label } = categoryFor(allergy);
+    const categories = (ALLERGY_INCLUDES[allergy.toLowerCase()] ?? [allergy]).map(categoryFor);
+    for (const category of categories) {
+      const matched = findAlias(ingredient, category);
+      if (matched) {
+        conflicts.push({ reason: `${label} allergy`, matched });
+        break;
+      }
+    }
+  }
+  for (const diet of profile.diet) {
+    for (const key of DIET_EXCLUSIONS[diet.toLowerCase()] ?? []) {
+      const matched = findAlias(ingredient, CONFLICT_CATEGORIES[key]);
+      if (matched) {
+        conflicts.push({ reason: diet, matched });
+        break; // one reason per diet is enough
+      }
+    }
+  }
+  return conflicts;
+}
+
+export interface RecipeConflict {
+  ingredient: string;
+  conflicts: IngredientConflict[];
+}
+
+/** Conflicting ingredients and their reasons, in recipe order. */
+export function recipeConflicts(ingredients: string[], profile: CookingProfile | null): RecipeConflict[] {
+  if (!profile) return [];
+  return ingredients
+    .map((ingredient) => ({ ingredient, conflicts: findConflicts(ingredient, profile) }))
+    .filter(({ conflicts }) => conflicts.length > 0);
+}
+
+export function describeConflicts(conflicts: IngredientConflict[]): string {
+  return conflicts.map((c) => `${c.matched} — ${c.reason}`).join("; ");
+}
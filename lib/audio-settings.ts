@@ -0,0 +1,59 @@
+import type { AudioCaptureOptions } from "livekit-client";
+import { createLocalStore, useLocalStore } from "./local-store";
+
+// Microphone and speaker preferences, kept locally and applied when joining a
+// room. Kitchens are loud: the browser's processing and push-to-talk are the
+// main defences against the range hood taking a turn.
+
+export interface AudioSettings {
+  inputDeviceId?: string; // system default when unset
+  outputDeviceId?: string;
+  noiseSuppression: boolean;
+  echoCancellation: boolean;
+  autoGainControl: boolean;
+  pushToTalk: boolean; // mic stays muted unless the talk button or space is held
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  noiseSuppression: true,
+  echoCancellation: true,
+  autoGainControl: true,
+  pushToTalk: false,
+};
+
+function parseSettings(raw: string | null): AudioSettings {
+  if (!raw) return DEFAULT_AUDIO_SETTINGS;
+  try {
+    return { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(raw) };
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+const store = createLocalStore("chef-claude:audio-settings", parseSettings);
+
+export function loadAudioSettings(): AudioSettings {
+  return store.read();
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  store.write(settings);
+}
+
+export function updateAudioSettings(changes: Partial<AudioSettings>) {
+  saveAudioSettings({ ...loadAudioSettings(), ...changes });
+}
+
+export function toCaptureOptions(settings: AudioSettings): AudioCaptureOptions {
+  return {
+    deviceId: settings.inputDeviceId,
+    noiseSuppression: settings.noiseSuppression,
+    echoCancellation: settings.echoCancellation,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/** The saved audio settings. Null until hydrated on the client. */
+export function useAudioSettings(): AudioSettings | null {
+  return useLocalStore(store);
+}
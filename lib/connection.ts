@@ -0,0 +1,119 @@
+import { getDisplayName } from "./identity";
+import { isEmptyProfile, loadProfile, toWireProfile } from "./profile";
+
+// Fetching room tokens, with retries for failures that may clear up on their own.
+
+export interface ConnectionDetails {
+  token: string;
+  url: string;
+  room: string;
+  // Both given only to the cook who started the room; see lib/join-code
+  joinCode?: string; // lets someone else into this room
+  resume?: string; // gets us back into this room as host
+}
+
+/** Which room to ask for: a room of our own (new when unset) or someone else's via invite. */
+export type RoomTarget = { resume?: string } | { joinCode: string };
+
+/** Backoff before each retry; the length is the number of retries. */
+export const RETRY_DELAYS_MS = [1000, 2000, 4000, 8000];
+
+export class TokenError extends Error {
+  constructor(
+    message: string,
+    readonly code: string, // token route error code, or "network"
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = "TokenError";
+  }
+}
+
+// User-facing wording for the token route's error codes
+const ERROR_MESSAGES: Record<string, string> = {
+  not_configured: "The voice server isn't set up yet. Check the LiveKit settings.",
+  invalid_request: "The app sent a bad request to the server.",
+  invalid_join_code: "That invite isn't valid. Ask for a new link.",
+  invalid_resume_token: "That session can't be rejoined any more. Start a new one.",
+  token_failed: "The server couldn't start a session.",
+};
+
+function isConnectionDetails(body: unknown): body is ConnectionDetails {
+  if (typeof body !== "object" || body === null) return false;
+  const details = body as Record<string, unknown>;
+  return (
+    typeof details.token === "string" &&
+    typeof details.url === "string" &&
+    typeof details.room === "string" &&
+    (details.joinCode === undefined || typeof details.joinCode === "string") &&
+    (details.resume === undefined || typeof details.resume === "string")
+  );
+}
+
+export async function fetchToken(target: RoomTarget = {}): Promise<ConnectionDetails> {
+  // The agent reads the profile from our participant metadata when it joins
+  const profile = loadProfile();
+  let res: Response;
+  try {
+    res = await fetch("/api/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...("joinCode" in target ? { join: target.joinCode } : { resume: target.resume }),
+        name: getDisplayName(),
+        metadata: isEmptyProfile(profile) ? undefined : { profile: toWireProfile(profile) },
+      }),
+    });
+  } catch {
+    throw new TokenError("Can't reach the server. Check your connection.", "network", true);
+  }
+
+  const body = await res.json().catch(() => null);
+  // A success without usable details is as bad as any other failure
+  if (res.ok && isConnectionDetails(body)) return body;
+  const code: string = body?.error?.code ?? "unknown";
+  // Bad requests and missing configuration won't fix themselves
+  const retryable = res.status >= 500 && code !== "not_configured";
+  throw new TokenError(
+    ERROR_MESSAGES[code] ?? body?.error?.message ?? `Server error (${res.status})`,
+    code,
+    retryable,
+  );
+}
+
+/** `fetchToken`, retried with backoff while the failure is retryable. */
+export async function fetchTokenWithRetry(
+  target: RoomTarget,
+  onRetry: (attempt: number, error: TokenError) => void,
+): Promise<ConnectionDetails> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchToken(target);
+    } catch (err) {
+      const error = err instanceof TokenError ? err : new TokenError(String(err), "unknown", false);
+      if (!error.retryable || attempt >= RETRY_DELAYS_MS.length) throw error;
+      console.warn(`[token] attempt ${attempt + 1} failed, retrying`, error);
+      onRetry(attempt + 1, error);
+      // Jitter so a room full of clients doesn't retry in lockstep
+      const delay = RETRY_DELAYS_MS[attempt] * (0.75 + Math.random() * 0.5);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/** Shareable link that opens the app straight into the room. */
+export function inviteLink(joinCode: string): string {
+  return `${window.location.origin}/?join=${encodeURIComponent(joinCode)}`;
+}
+
+/** The join code from a pasted invite link or a bare code; the server does the real check. */
+export function parseInvite(text: string): string | null {
+  const trimmed = text.trim();
+  try {
+    const code = new URL(trimmed).searchParams.get("join");
+    if (code) return code;
+  } catch {
+    // not a link
+  }
+  return /^[\w-]+\.[\w-]+$/.test(trimmed) ? trimmed : null;
+}
@@ -0,0 +1,141 @@
+import { useEffect, useRef } from "react";
+import { createLocalStore, useLocalStore } from "./local-store";
+import { slugify } from "./recipe-formats";
+import type { Recipe, Timer } from "./types";
+
+// History of cooking sessions, recorded locally as the session unfolds, with
+// the user's own notes and ratings added afterwards.
+
+const MAX_ENTRIES = 100;
+
+export interface CookLogEntry {
+  id: string;
+  startedAt: number;
+  endedAt: number; // last activity; final once the session disconnects
+  recipeTitle?: string;
+  chosenDish?: string; // picked from the agent's suggestions
+  stepsReached: number; // highest step visited, 0 if never started
+  totalSteps: number;
+  timers: { id: string; label: string; durationSeconds: number }[];
+  notes?: string;
+  rating?: number; // 1-5
+}
+
+export function newCookLogId(): string {
+  return `cook-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function parseLog(raw: string | null): CookLogEntry[] {
+  if (!raw) return [];
+  try {
+    const entries = JSON.parse(raw);
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+const store = createLocalStore("chef-claude:cook-log", parseLog);
+
+function loadLog(): CookLogEntry[] {
+  return store.read();
+}
+
+function write(entries: CookLogEntry[]) {
+  store.write(entries.slice(0, MAX_ENTRIES));
+}
+
+/** Insert or replace an entry, keeping the log newest first. */
+function putEntry(entry: CookLogEntry) {
+  const log = loadLog();
+  const i = log.findIndex((e) => e.id === entry.id);
+  if (i >= 0) log[i] = entry;
+  else log.unshift(entry);
+  write(log);
+}
+
+// The recorder owns everything but the user's notes and rating
+function recordSession(entry: CookLogEntry) {
+  const stored = loadLog().find((e) => e.id === entry.id);
+  putEntry({ ...entry, notes: stored?.notes, rating: stored?.rating });
+}
+
+export function updateCookLogEntry(id: string, patch: Partial<Pick<CookLogEntry, "notes" | "rating">>) {
+  const entry = loadLog().find((e) => e.id === id);
+  if (entry) putEntry({ ...entry, ...patch });
+}
+
+export function removeCookLogEntry(id: string) {
+  write(loadLog().filter((e) => e.id !== id));
+}
+
+/** Notes and ratings from earlier cooks of the same dish, newest first. */
+export function pastNotesFor(title: string, excludeId?: string): CookLogEntry[] {
+  const key = slugify(title);
+  return loadLog().filter(
+    (e) =>
+      e.id !== excludeId &&
+      e.recipeTitle !== undefined &&
+      slugify(e.recipeTitle) === key &&
+      (e.notes?.trim() || e.rating),
+  );
+}
+
+/** The cook log, newest first. Null until hydrated on the client. */
+export function useCookLog(): CookLogEntry[] | null {
+  return useLocalStore(store);
+}
+
+/**
+ * Record the live session into log entry `id` as its state changes. Sessions
+ * that never get as far as a dish or recipe are not recorded, and nothing is
+ * recorded while `id` is null.
+ */
+export function useCookLogRecorder(
+  id: string | null,
+  { recipe, timers, chosenDish }: { recipe: Recipe | null; timers: Timer[]; chosenDish: string | null },
+) {
+  const entryRef = useRef<CookLogEntry | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    const now = Date.now();
+    // A resumed session continues the entry it started
+    const entry = entryRef.current ??
+      loadLog().find((e) => e.id === id) ??
+      { id, startedAt: now, endedAt: now, stepsReached: 0, totalSteps: 0, timers: [] };
+
+    const next: CookLogEntry = { ...entry, endedAt: now };
+    if (chosenDish) next.chosenDish = chosenDish;
+    if (recipe) {
+      if (recipe.title !== entry.recipeTitle) {
+        next.recipeTitle = recipe.title;
+        next.stepsReached = 0;
+      }
+      next.totalSteps = recipe.steps.length;
+      next.stepsReached = Math.max(next.stepsReached, recipe.currentStep ?? 0);
+    }
+    const known = new Set(entry.timers.map((t) => t.id));
+    next.timers = [
+      ...entry.timers,
+      ...timers
+        .filter((t) => !known.has(t.id))
+        .map((t) => ({ id: t.id, label: t.label, durationSeconds: t.duration })),
+    ];
+    entryRef.current = next;
+    if (next.recipeTitle || next.chosenDish) recordSession(next);
+  }, [id, recipe, timers, chosenDish]);
+
+  // Stamp the end time when the session goes away, including tab close
+  useEffect(() => {
+    const finish = () => {
+      const entry = entryRef.current;
+      if (entry && (entry.recipeTitle || entry.chosenDish)) recordSession({ ...entry, endedAt: Date.now() });
+    };
+    window.addEventListener("pagehide", finish);
+    return () => {
+      window.removeEventListener("pagehide", finish);
+      finish();
+    };
+  }, []);
+}
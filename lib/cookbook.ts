@@ -0,0 +1,74 @@
+import { createLocalStore, useLocalStore } from "./local-store";
+import { slugify } from "./recipe-formats";
+import type { Recipe } from "./types";
+
+// Recipes the user chose to keep, stored locally so they outlive the session
+// that produced them.
+
+export interface SavedRecipe {
+  id: string;
+  savedAt: number;
+  recipe: Recipe;
+}
+
+// Unique per entry, since different recipes can share a title and titles in
+// other scripts all slugify to "recipe"; the slug just makes the URL readable
+function newCookbookId(recipe: Recipe): string {
+  return `${slugify(recipe.title)}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function sameRecipe(a: Recipe, b: Recipe): boolean {
+  return (
+    a.title === b.title &&
+    JSON.stringify(a.ingredients) === JSON.stringify(b.ingredients) &&
+    JSON.stringify(a.steps) === JSON.stringify(b.steps)
+  );
+}
+
+/** The entry this recipe was saved as, if it was. Scaling or progress don't make it a different recipe. */
+export function findCookbookEntry(cookbook: SavedRecipe[], recipe: Recipe): SavedRecipe | undefined {
+  return cookbook.find((entry) => sameRecipe(entry.recipe, recipe));
+}
+
+function parseCookbook(raw: string | null): SavedRecipe[] {
+  if (!raw) return [];
+  try {
+    const entries = JSON.parse(raw);
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+const store = createLocalStore("chef-claude:cookbook", parseCookbook);
+
+export function loadCookbook(): SavedRecipe[] {
+  return store.read();
+}
+
+export function findSavedRecipe(id: string): SavedRecipe | undefined {
+  return loadCookbook().find((entry) => entry.id === id);
+}
+
+/** Saving the same recipe again replaces the earlier entry, keeping its id. */
+export function saveRecipe(recipe: Recipe): SavedRecipe {
+  const cookbook = loadCookbook();
+  const existing = findCookbookEntry(cookbook, recipe);
+  // Keep the servings the user scaled to, but not how far they got
+  const entry: SavedRecipe = {
+    id: existing?.id ?? newCookbookId(recipe),
+    savedAt: Date.now(),
+    recipe: { ...recipe, currentStep: undefined },
+  };
+  store.write([entry, ...cookbook.filter((e) => e.id !== entry.id)]);
+  return entry;
+}
+
+export function removeRecipe(id: string) {
+  store.write(loadCookbook().filter((entry) => entry.id !== id));
+}
+
+/** Saved recipes, newest first. Null until hydrated on the client. */
+export function useCookbook(): SavedRecipe[] | null {
+  return useLocalStore(store);
+}
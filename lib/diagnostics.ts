@@ -0,0 +1,143 @@
+import type { AgentState } from "@livekit/components-react";
+
+// Timings for the diagnostics overlay: how long the agent spends in each
+// state, how long each turn takes to produce audio, and how much data-channel
+// traffic is flowing. Collected for the current session in memory only, so
+// the overlay shows history from before it was opened.
+
+export interface StateTransition {
+  state: AgentState;
+  at: number; // epoch ms
+}
+
+export interface Turn {
+  userStoppedAt?: number; // when we last saw the user speaking, if we did
+  thinkingAt?: number; // unset when the agent spoke without being asked
+  speakingAt?: number;
+  endedAt?: number;
+}
+
+export interface TurnTimings {
+  endOfSpeechMs?: number; // user stopped → agent started thinking
+  thinkingMs?: number; // thinking → speaking
+  firstAudioMs?: number; // user stopped (or thinking, if unknown) → speaking
+  speakingMs?: number;
+}
+
+export interface TopicRate {
+  topic: string;
+  received: number; // messages per second
+  published: number;
+  bytesPerSecond: number;
+}
+
+interface MessageSample {
+  at: number;
+  direction: "received" | "published";
+  topic: string;
+  bytes: number;
+}
+
+const MAX_TRANSITIONS = 200;
+const MAX_TURNS = 50;
+// Samples are only kept as long as the widest rate window needs them
+const MESSAGE_HISTORY_MS = 60_000;
+
+let transitions: StateTransition[] = [];
+let turns: Turn[] = [];
+let messages: MessageSample[] = [];
+let messageTotals = { received: 0, published: 0 };
+let userSpeaking = false;
+let userStoppedAt: number | undefined;
+
+/** Forget the previous session's timings. */
+export function resetDiagnostics() {
+  transitions = [];
+  turns = [];
+  messages = [];
+  messageTotals = { received: 0, published: 0 };
+  userSpeaking = false;
+  userStoppedAt = undefined;
+}
+
+export function recordAgentState(state: AgentState, at = Date.now()) {
+  const previous = transitions.at(-1);
+  if (previous?.state === state) return;
+  transitions = [...transitions, { state, at }].slice(-MAX_TRANSITIONS);
+
+  const current = turns.at(-1);
+  const open = current && current.endedAt === undefined ? current : undefined;
+  if (state === "speaking" && open && open.speakingAt === undefined) {
+    turns = [...turns.slice(0, -1), { ...open, speakingAt: at }];
+    return;
+  }
+  // Any other change ends the open turn; thinking straight back to listening
+  // is a turn with no reply, e.g. an interruption
+  if (open) turns = [...turns.slice(0, -1), { ...open, endedAt: at }];
+  if (state === "thinking") {
+    turns = [...turns, { userStoppedAt, thinkingAt: at }].slice(-MAX_TURNS);
+    userStoppedAt = undefined;
+  } else if (state === "speaking") {
+    turns = [...turns, { speakingAt: at }].slice(-MAX_TURNS);
+  }
+}
+
+/** Feed in the local participant's speaking indicator to time end of speech. */
+export function recordUserSpeaking(speaking: boolean, at = Date.now()) {
+  if (speaking === userSpeaking) return;
+  userSpeaking = speaking;
+  if (!speaking) userStoppedAt = at;
+}
+
+export function countDataMessage(direction: MessageSample["direction"], topic: string | undefined, bytes: number) {
+  const at = Date.now();
+  messageTotals = { ...messageTotals, [direction]: messageTotals[direction] + 1 };
+  messages.push({ at, direction, topic: topic ?? "(none)", bytes });
+  if (messages[0].at < at - MESSAGE_HISTORY_MS) {
+    messages = messages.filter((m) => m.at >= at - MESSAGE_HISTORY_MS);
+  }
+}
+
+export function turnTimings(turn: Turn): TurnTimings {
+  const { userStoppedAt: stopped, thinkingAt, speakingAt, endedAt } = turn;
+  const between = (from?: number, to?: number) => (from !== undefined && to !== undefined ? to - from : undefined);
+  return {
+    endOfSpeechMs: between(stopped, thinkingAt),
+    thinkingMs: between(thinkingAt, speakingAt),
+    firstAudioMs: between(stopped ?? thinkingAt, speakingAt),
+    speakingMs: between(speakingAt, endedAt),
+  };
+}
+
+export function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function messageRates(windowMs: number, now: number): TopicRate[] {
+  const byTopic = new Map<string, TopicRate>();
+  for (const m of messages) {
+    if (m.at < now - windowMs) continue;
+    const rate = byTopic.get(m.topic) ?? { topic: m.topic, received: 0, published: 0, bytesPerSecond: 0 };
+    rate[m.direction] += 1000 / windowMs;
+    rate.bytesPerSecond += (m.bytes * 1000) / windowMs;
+    byTopic.set(m.topic, rate);
+  }
+  return [...byTopic.values()].sort((a, b) => a.topic.localeCompare(b.topic));
+}
+
+export interface DiagnosticsSnapshot {
+  now: number;
+  transitions: StateTransition[];
+  turns: Turn[];
+  rates: TopicRate[];
+  totals: { received: number; published: number };
+}
+
+/** Everything recorded so far, with message rates over the last `windowMs`. */
+export function diagnosticsSnapshot(windowMs = 10_000): DiagnosticsSnapshot {
+  const now = Date.now();
+  return { now, transitions, turns, rates: messageRates(windowMs, now), totals: messageTotals };
+}
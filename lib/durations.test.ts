@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { findStepDurations, timerLabelFor } from "./durations";
+
+describe("findStepDurations", () => {
+  it("finds a plain duration with its position", () => {
+    const step = "Simmer for 10 minutes.";
+    expect(findStepDurations(step)).toEqual([{ text: "10 minutes", index: 11, seconds: 600 }]);
+  });
+
+  it("reads ranges as a lower and upper bound", () => {
+    expect(findStepDurations("Bake 25–30 minutes")).toMatchObject([{ seconds: 1500, maxSeconds: 1800 }]);
+    expect(findStepDurations("Bake 25 to 30 mins")).toMatchObject([{ seconds: 1500, maxSeconds: 1800 }]);
+  });
+
+  it("adds up mixed units", () => {
+    expect(findStepDurations("Rest 1 hour 15 min")).toMatchObject([{ text: "1 hour 15 min", seconds: 4500 }]);
+    expect(findStepDurations("Braise for 2 hrs and 30 minutes")).toMatchObject([{ seconds: 9000 }]);
+  });
+
+  it.each([
+    ["Cook for 1½ hours", 5400],
+    ["Cook for 1 1/2 hours", 5400],
+    ["Let it stand for thirty seconds", 30],
+    ["Rest for half an hour", 1800],
+    ["Give it a 5-minute rest", 300],
+  ])("reads %j as %d seconds", (step, seconds) => {
+    expect(findStepDurations(step)).toMatchObject([{ seconds }]);
+  });
+
+  it("finds each duration in a step", () => {
+    const found = findStepDurations("Boil for 2 minutes, then simmer for 20 minutes");
+    expect(found.map((d) => d.seconds)).toEqual([120, 1200]);
+  });
+
+  it("skips intervals and steps without durations", () => {
+    expect(findStepDurations("Stir every 5 minutes until thick")).toEqual([]);
+    expect(findStepDurations("Season to taste")).toEqual([]);
+  });
+});
+
+describe("timerLabelFor", () => {
+  const labelOf = (step: string, i = 0) => timerLabelFor(step, findStepDurations(step)[i], "Step 1");
+
+  it("takes the verb from the clause the duration is in", () => {
+    expect(labelOf("Bring to a boil, then simmer for 10 minutes")).toBe("Simmer");
+    expect(labelOf("Boil for 2 minutes, then simmer for 20 minutes", 1)).toBe("Simmer");
+  });
+
+  it("falls back when nothing precedes the duration", () => {
+    expect(labelOf("10 minutes in the oven")).toBe("Step 1");
+  });
+});
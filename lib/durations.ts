@@ -0,0 +1,96 @@
+import { FRACTION_CHARS, readAmount } from "./ingredients";
+
+// Durations mentioned in free-text recipe steps ("simmer for 10–12 minutes",
+// "rest 1 hour 15 min"), so they can be offered as one-tap timers.
+
+export interface StepDuration {
+  text: string; // as written in the step
+  index: number; // offset of `text` in the step
+  seconds: number; // lower bound for ranges; better to check early than burn
+  maxSeconds?: number; // upper bound of a range
+}
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  fifteen: 15, twenty: 20, thirty: 30, forty: 40, "forty-five": 45,
+};
+
+const UNIT_SECONDS: [RegExp, number][] = [
+  [/^h/i, 3600],
+  [/^m/i, 60],
+  [/^s/i, 1],
+];
+
+const NUMBER = `(?:\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d*[${FRACTION_CHARS}]|\\d*\\.\\d+|\\d+|half an?|${Object.keys(WORD_NUMBERS)
+  .sort((a, b) => b.length - a.length)
+  .join("|")})`;
+const UNIT = "(?:hours?|hrs?|minutes?|mins?|seconds?|secs?)";
+// One quantity with its unit, optionally a range: "10–12 minutes", "1½ hours", "5-minute"
+const PART = `${NUMBER}(?:\\s*(?:-|–|—|to)\\s*${NUMBER})?[\\s-]*${UNIT}\\b`;
+// Mixed units: "1 hour 30 minutes", "1 hr and 15 min"
+const DURATION_PATTERN = new RegExp(`\\b${PART}(?:\\s*(?:,\\s*|and\\s+)?${PART})*`, "gi");
+const PART_PATTERN = new RegExp(
+  `(${NUMBER})(?:\\s*(?:-|–|—|to)\\s*(${NUMBER}))?[\\s-]*(${UNIT})`,
+  "gi",
+);
+
+function readNumber(text: string): number | undefined {
+  const word = text.toLowerCase();
+  if (word.startsWith("half")) return 0.5;
+  if (word in WORD_NUMBERS) return WORD_NUMBERS[word];
+  return readAmount(text)?.value;
+}
+
+function unitSeconds(unit: string): number {
+  return UNIT_SECONDS.find(([pattern]) => pattern.test(unit))?.[1] ?? 60;
+}
+
+export function findStepDurations(step: string): StepDuration[] {
+  const found: StepDuration[] = [];
+  for (const match of step.matchAll(DURATION_PATTERN)) {
+    let min = 0;
+    let max = 0;
+    for (const [, lo, hi, unit] of match[0].matchAll(PART_PATTERN)) {
+      const factor = unitSeconds(unit);
+      const low = readNumber(lo);
+      if (low === undefined) continue;
+      min += low * factor;
+      max += (hi !== undefined ? readNumber(hi) ?? low : low) * factor;
+    }
+    // "stir every 5 minutes" is an interval, not something to time
+    if (min <= 0 || /\b(?:every|each)\s*$/i.test(step.slice(0, match.index))) continue;
+    found.push({
+      text: match[0],
+      index: match.index,
+      seconds: Math.round(min),
+      ...(max > min ? { maxSeconds: Math.round(max) } : {}),
+    });
+  }
+  return found;
+}
+
+const CLAUSE_BREAK = /[.;:!?,]|\b(?:then|and|or|until|while)\b/gi;
+const LEADING_FILLER = /^(?:\s|for|about|around|approximately|another|an additional|roughly)+/i;
+
+/**
+ * A short timer label for a duration, taken from the start of the clause it
+ * appears in: "Bring to a boil, then simmer for 10 minutes" gives "Simmer".
+ */
+export function timerLabelFor(step: string, duration: StepDuration, fallback: string): string {
+  const before = step.slice(0, duration.index);
+  const breaks = [...before.matchAll(CLAUSE_BREAK)];
+  const last = breaks[breaks.length - 1];
+  const clauseStart = last ? last.index + last[0].length : 0;
+  const words = before
+    .slice(clauseStart)
+    .replace(/(?:\b(?:for|about|around|approximately|roughly|another|in|at least|up to)\s*)+$/i, "")
+    .replace(LEADING_FILLER, "")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 4);
+  if (words.length === 0) return fallback;
+  const label = words.join(" ");
+  return label[0].toUpperCase() + label.slice(1);
+}
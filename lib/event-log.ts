@@ -0,0 +1,115 @@
+import { downloadFile } from "./download";
+import { createLocalStore, useLocalStore } from "./local-store";
+
+// Opt-in record of data-channel traffic: every message the UI receives and
+// every message it publishes, with timestamps, so a bug report can come with
+// exactly what the agent sent. Kept in localStorage so it survives the reload
+// a stuck user will usually try first.
+
+const LOG_VERSION = 1;
+
+// Oldest entries are dropped past this; a long cook sends a few hundred messages
+const MAX_ENTRIES = 5000;
+const FLUSH_DELAY_MS = 1000;
+
+export interface EventLogEntry {
+  t: number; // epoch ms
+  direction: "received" | "published";
+  topic?: string;
+  participant?: string; // sender identity, for received messages
+  agent?: boolean; // the sender was the agent rather than another cook
+  payload: string; // raw text, undecoded, so invalid messages are kept as sent
+}
+
+export interface EventLog {
+  version: typeof LOG_VERSION;
+  entries: EventLogEntry[];
+}
+
+function parseLog(raw: string | null): EventLog {
+  if (!raw) return { version: LOG_VERSION, entries: [] };
+  try {
+    return parseEventLog(raw);
+  } catch {
+    return { version: LOG_VERSION, entries: [] };
+  }
+}
+
+/** Read a downloaded log file. Throws if it isn't one. */
+export function parseEventLog(contents: string): EventLog {
+  const log = JSON.parse(contents);
+  if (typeof log !== "object" || log === null || !Array.isArray(log.entries)) {
+    throw new Error("Not an event log");
+  }
+  if (log.version !== LOG_VERSION) {
+    throw new Error(`Unsupported event log version ${JSON.stringify(log.version)}`);
+  }
+  const valid = log.entries.every(
+    (e: EventLogEntry) =>
+      typeof e.t === "number" &&
+      (e.direction === "received" || e.direction === "published") &&
+      typeof e.payload === "string",
+  );
+  if (!valid) throw new Error("Event log has malformed entries");
+  return log;
+}
+
+const store = createLocalStore("chef-claude:event-log", parseLog);
+// "1" is how the setting was stored before it went through the store as JSON
+const enabledStore = createLocalStore("chef-claude:event-log-enabled", (raw) => raw === "1" || raw === "true");
+
+export function isEventLogEnabled(): boolean {
+  return enabledStore.read();
+}
+
+export function setEventLogEnabled(enabled: boolean) {
+  enabledStore.write(enabled ? true : null);
+}
+
+export function loadEventLog(): EventLog {
+  return store.read();
+}
+
+// Entries are batched so a burst of messages costs one storage write
+let pending: EventLogEntry[] = [];
+let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function flush() {
+  if (flushTimeout) clearTimeout(flushTimeout);
+  flushTimeout = null;
+  if (pending.length === 0) return;
+  const entries = [...loadEventLog().entries, ...pending].slice(-MAX_ENTRIES);
+  pending = [];
+  store.write({ version: LOG_VERSION, entries });
+}
+
+/** Record one message if recording is on; cheap to call when it's off. */
+export function recordEvent(entry: Omit<EventLogEntry, "t" | "payload">, payload: Uint8Array) {
+  if (!isEventLogEnabled()) return;
+  pending.push({ t: Date.now(), ...entry, payload: new TextDecoder().decode(payload) });
+  if (!flushTimeout) {
+    if (pending.length === 1) window.addEventListener("pagehide", flush, { once: true });
+    flushTimeout = setTimeout(flush, FLUSH_DELAY_MS);
+  }
+}
+
+export function clearEventLog() {
+  pending = [];
+  store.write(null);
+}
+
+export function downloadEventLog() {
+  flush();
+  const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+  downloadFile(`chef-claude-events-${stamp}.json`, JSON.stringify(loadEventLog(), null, 2), "application/json");
+}
+
+/** Whether recording is on. False during server rendering. */
+export function useEventLogEnabled(): boolean {
+  return useLocalStore(enabledStore) ?? false;
+}
+
+/** The recorded log. Null until hydrated on the client. */
+export function useEventLog(): EventLog | null {
+  return useLocalStore(store);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { exportGroceryList } from "./grocery-export";
+import type { GroceryItem } from "./types";
+
+const items: GroceryItem[] = [
+  { recipe: "Pancakes", ingredients: ["2 eggs", "1 cup milk"], checked: ["2 eggs"] },
+  { recipe: "Omelette", ingredients: ["3 eggs", 'cheese, "aged"'], checked: [] },
+];
+
+describe("exportGroceryList", () => {
+  it("lists items by recipe as text", () => {
+    expect(exportGroceryList(items, "text", { view: "recipe", uncheckedOnly: false })).toBe(
+      ["Grocery list", "", "Pancakes", "✓ 2 eggs", "- 1 cup milk", "", "Omelette", "- 3 eggs", '- cheese, "aged"', ""].join(
+        "\n",
+      ),
+    );
+  });
+
+  it("renders markdown checkboxes", () => {
+    const markdown = exportGroceryList(items, "markdown", { view: "recipe", uncheckedOnly: false });
+    expect(markdown.startsWith("# Grocery list\n\n## Pancakes\n- [x] 2 eggs\n- [ ] 1 cup milk\n")).toBe(true);
+  });
+
+  it("leaves out checked items and groups that end up empty", () => {
+    const done: GroceryItem[] = [{ recipe: "Toast", ingredients: ["bread"], checked: ["bread"] }, ...items];
+    const text = exportGroceryList(done, "text", { view: "recipe", uncheckedOnly: true });
+    expect(text).not.toContain("Toast");
+    expect(text).not.toContain("2 eggs");
+    expect(text).toContain("- 1 cup milk");
+  });
+
+  it("quotes CSV fields that need it", () => {
+    const csv = exportGroceryList(items, "csv", { view: "recipe", uncheckedOnly: false });
+    expect(csv.split("\n")).toEqual([
+      "Recipe,Item,Checked",
+      "Pancakes,2 eggs,yes",
+      "Pancakes,1 cup milk,no",
+      "Omelette,3 eggs,no",
+      'Omelette,"cheese, ""aged""",no',
+      "",
+    ]);
+  });
+
+  it("merges the same item across recipes in the combined view", () => {
+    const csv = exportGroceryList(items, "csv", { view: "combined", uncheckedOnly: false });
+    const [header, ...rows] = csv.trim().split("\n");
+    expect(header).toBe("Section,Item,Amount,Recipes,Checked");
+    const eggs = rows.filter((row) => row.includes(",egg"));
+    expect(eggs).toHaveLength(1);
+    expect(eggs[0]).toContain("Pancakes; Omelette");
+  });
+});
@@ -0,0 +1,82 @@
+import { consolidateGroceryList } from "./grocery";
+import type { GroceryItem } from "./types";
+
+// Plain-text renderings of the grocery list for copying and sharing with
+// whoever is doing the shopping.
+
+export type GroceryExportFormat = "text" | "markdown" | "csv";
+
+export interface GroceryExportOptions {
+  view: "recipe" | "combined"; // group by recipe, or merged by store section
+  uncheckedOnly: boolean;
+}
+
+interface ExportGroup {
+  heading: string;
+  rows: { label: string; item: string; amount: string; recipes: string[]; checked: boolean }[];
+}
+
+function exportGroups(items: GroceryItem[], { view, uncheckedOnly }: GroceryExportOptions): ExportGroup[] {
+  const groups: ExportGroup[] =
+    view === "recipe"
+      ? items.map((group) => ({
+          heading: group.recipe,
+          rows: group.ingredients.map((ingredient) => ({
+            label: ingredient,
+            item: ingredient,
+            amount: "",
+            recipes: [group.recipe],
+            checked: group.checked.includes(ingredient),
+          })),
+        }))
+      : consolidateGroceryList(items).map(({ section, items: sectionItems }) => ({
+          heading: section,
+          rows: sectionItems.map((item) => ({
+            label: item.amount ? `${item.amount} ${item.name}` : item.name,
+            item: item.name,
+            amount: item.amount,
+            recipes: [...new Set(item.sources.map((source) => source.recipe))],
+            checked: item.checked,
+          })),
+        }));
+  return groups
+    .map((group) => ({ ...group, rows: uncheckedOnly ? group.rows.filter((row) => !row.checked) : group.rows }))
+    .filter((group) => group.rows.length > 0);
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportGroceryList(
+  items: GroceryItem[],
+  format: GroceryExportFormat,
+  options: GroceryExportOptions,
+): string {
+  const groups = exportGroups(items, options);
+
+  if (format === "csv") {
+    const byRecipe = options.view === "recipe";
+    const header = byRecipe ? ["Recipe", "Item", "Checked"] : ["Section", "Item", "Amount", "Recipes", "Checked"];
+    const rows = groups.flatMap((group) =>
+      group.rows.map((row) => {
+        const checked = row.checked ? "yes" : "no";
+        return byRecipe
+          ? [group.heading, row.item, checked]
+          : [group.heading, row.item, row.amount, row.recipes.join("; "), checked];
+      }),
+    );
+    return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+  }
+
+  const lines: string[] = [format === "markdown" ? "# Grocery list" : "Grocery list"];
+  for (const group of groups) {
+    lines.push("", format === "markdown" ? `## ${group.heading}` : group.heading);
+    for (const row of group.rows) {
+      lines.push(
+        format === "markdown" ? `- [${row.checked ? "x" : " "}] ${row.label}` : `${row.checked ? "✓" : "-"} ${row.label}`,
+      );
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,201 @@
+import { formatAmount, ingredientKey, parseIngredient, type UnitDef } from "./ingredients";
+import type { WireGroceryItem } from "./protocol";
+import type { GroceryItem } from "./types";
+
+function recipeKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** Strip client-only bookkeeping before sending the list to the agent. */
+export function toWireGroceryList(items: GroceryItem[]): WireGroceryItem[] {
+  return items.map(({ recipe, ingredients, checked }) => ({ recipe, ingredients, checked }));
+}
+
+export interface GroceryRef {
+  recipeIdx: number;
+  ingredient: string;
+}
+
+/** Set the checked state of several ingredients, remembering each until the agent echoes it. */
+export function setGroceryChecked(items: GroceryItem[], refs: GroceryRef[], checked: boolean): GroceryItem[] {
+  const updated = [...items];
+  for (const { recipeIdx, ingredient } of refs) {
+    const group = updated[recipeIdx];
+    const others = group.checked.filter((c) => c !== ingredient);
+    updated[recipeIdx] = {
+      ...group,
+      checked: checked ? [...others, ingredient] : others,
+      pendingChecks: { ...group.pendingChecks, [ingredient]: checked },
+    };
+  }
+  return updated;
+}
+
+/**
+ * Merge a grocery list from the agent into the local one without losing the
+ * user's check-offs. Per ingredient:
+ * - a pending local toggle wins until the agent reports the same state;
+ * - if the agent doesn't track checks for a recipe, local state is kept;
+ * - otherwise the agent's state is taken.
+ */
+export function mergeGroceryList(local: GroceryItem[], incoming: WireGroceryItem[]): GroceryItem[] {
+  const localByRecipe = new Map(local.map((group) => [recipeKey(group.recipe), group]));
+
+  return incoming.map((item) => {
+    const previous = localByRecipe.get(recipeKey(item.recipe));
+    const agentChecked = item.checked ? new Set(item.checked) : null;
+    const localChecked = new Set(previous?.checked ?? []);
+    const pendingChecks: Record<string, boolean> = {};
+
+    const checked = item.ingredients.filter((ingredient) => {
+      const pending = previous?.pendingChecks?.[ingredient];
+      const agentState = agentChecked ? agentChecked.has(ingredient) : localChecked.has(ingredient);
+      if (pending === undefined || pending === agentState) return agentState;
+      pendingChecks[ingredient] = pending;
+      return pending;
+    });
+
+    return {
+      recipe: item.recipe,
+      ingredients: item.ingredients,
+      checked,
+      ...(Object.keys(pendingChecks).length > 0 ? { pendingChecks } : {}),
+    };
+  });
+}
+
+export const STORE_SECTIONS = [
+  "Produce",
+  "Meat & Seafood",
+  "Dairy & Eggs",
+  "Bakery",
+  "Pantry",
+  "Spices & Seasonings",
+  "Frozen",
+  "Other",
+] as const;
+
+export type StoreSection = (typeof STORE_SECTIONS)[number];
+
+// Checked in order, so "garlic powder" lands in spices before produce sees
+// "garlic" and "coconut milk" in pantry before dairy sees "milk".
+const SECTION_KEYWORDS: [StoreSection, string[]][] = [
+  ["Frozen", ["frozen", "ice cream"]],
+  ["Spices & Seasonings", [
+    "salt", "black pepper", "peppercorn", "powder", "paprika", "cumin", "cinnamon", "nutmeg", "oregano",
+    "dried", "chili flake", "red pepper flake", "cayenne", "turmeric", "coriander seed", "bay leaf",
+    "clove", "seasoning", "allspice", "cardamom", "vanilla", "saffron", "garam masala",
+  ]],
+  ["Pantry", [
+    "oil", "vinegar", "flour", "sugar", "honey", "syrup", "rice", "pasta", "spaghetti", "penne", "noodle",
+    "broth", "stock", "paste", "sauce", "canned", "diced tomato", "bean", "lentil", "chickpea", "oat",
+    "breadcrumb", "panko", "coconut milk", "peanut butter", "nut", "almond", "cashew", "walnut", "pecan",
+    "baking soda", "baking powder", "yeast", "cornstarch", "mustard", "ketchup", "mayonnaise", "tahini",
+    "cocoa", "chocolate", "quinoa", "couscous", "wine", "raisin", "seed",
+  ]],
+  ["Dairy & Eggs", [
+    "milk", "butter", "cream", "cheese", "yogurt", "yoghurt", "egg", "ghee", "parmesan", "mozzarella",
+    "feta", "ricotta", "creme fraiche",
+  ]],
+  ["Meat & Seafood", [
+    "chicken", "beef", "pork", "lamb", "turkey", "bacon", "sausage", "ham", "prosciutto", "pancetta",
+    "steak", "ground", "fish", "salmon", "tuna", "cod", "shrimp", "prawn", "scallop", "mussel",
+    "clam", "anchovy", "anchovies", "crab", "lobster",
+  ]],
+  ["Bakery", ["bread", "baguette", "bun", "roll", "tortilla", "pita", "naan", "croissant", "brioche"]],
+  ["Produce", [
+    "onion", "garlic", "shallot", "scallion", "leek", "tomato", "potato", "carrot", "celery", "pepper",
+    "chili", "lettuce", "spinach", "kale", "cabbage", "broccoli", "cauliflower", "zucchini", "courgette",
+    "eggplant", "aubergine", "mushroom", "cucumber", "avocado", "lemon", "lime", "orange", "apple",
+    "banana", "berry", "berries", "ginger", "basil", "parsley", "cilantro", "coriander", "mint", "dill",
+    "thyme", "rosemary", "sage", "chive", "corn", "pea", "squash", "pumpkin", "herb",
+  ]],
+];
+
+export function storeSectionFor(name: string): StoreSection {
+  const lower = name.toLowerCase();
+  for (const [section, keywords] of SECTION_KEYWORDS) {
+    if (keywords.some((keyword) => new RegExp(`\\b${keyword}(s|es)?\\b`).test(lower))) return section;
+  }
+  return "Other";
+}
+
+export interface ConsolidatedItem {
+  key: string;
+  name: string;
+  amount: string; // e.g. "5 cloves" or "1 cup + 2 tbsp"; empty when unquantified
+  section: StoreSection;
+  sources: (GroceryRef & { recipe: string })[];
+  checked: boolean; // true when every source is checked
+}
+
+interface AmountTotal {
+  unit?: UnitDef;
+  min: number;
+  max: number;
+  ranged: boolean;
+}
+
+// Amounts only add up within a dimension; counted units only with themselves
+function dimensionKey(unit?: UnitDef): string {
+  if (!unit) return "each";
+  return unit.dimension === "count" ? `count:${unit.key}` : unit.dimension;
+}
+
+/** Sum the same ingredient across recipes and group the result by store section. */
+export function consolidateGroceryList(items: GroceryItem[]): { section: StoreSection; items: ConsolidatedItem[] }[] {
+  const byKey = new Map<string, ConsolidatedItem & { totals: Map<string, AmountTotal> }>();
+
+  items.forEach((group, recipeIdx) => {
+    for (const ingredient of group.ingredients) {
+      const parsed = parseIngredient(ingredient);
+      const key = ingredientKey(parsed.name) || ingredient.toLowerCase();
+      let entry = byKey.get(key);
+      if (!entry) {
+        entry = {
+          key,
+          name: parsed.name,
+          amount: "",
+          section: storeSectionFor(parsed.name),
+          sources: [],
+          checked: true,
+          totals: new Map(),
+        };
+        byKey.set(key, entry);
+      }
+      entry.sources.push({ recipeIdx, recipe: group.recipe, ingredient });
+      entry.checked = entry.checked && group.checked.includes(ingredient);
+
+      if (parsed.quantity === undefined) continue;
+      const dimension = dimensionKey(parsed.unit);
+      const total = entry.totals.get(dimension);
+      const factor = parsed.unit?.toBase ?? 1;
+      const min = parsed.quantity * factor;
+      const max = (parsed.quantityMax ?? parsed.quantity) * factor;
+      if (total) {
+        total.min += min;
+        total.max += max;
+        total.ranged ||= parsed.quantityMax !== undefined;
+      } else {
+        // The first unit seen for a dimension is the one we display in
+        entry.totals.set(dimension, { unit: parsed.unit, min, max, ranged: parsed.quantityMax !== undefined });
+      }
+    }
+  });
+
+  const sections = new Map<StoreSection, ConsolidatedItem[]>();
+  for (const { totals, ...entry } of byKey.values()) {
+    entry.amount = [...totals.values()]
+      .map(({ unit, min, max, ranged }) => {
+        const factor = unit?.toBase ?? 1;
+        return formatAmount(min / factor, unit, ranged ? max / factor : undefined);
+      })
+      .join(" + ");
+    sections.set(entry.section, [...(sections.get(entry.section) ?? []), entry]);
+  }
+
+  return STORE_SECTIONS.filter((section) => sections.has(section)).map((section) => ({
+    section,
+    items: sections.get(section)!.sort((a, b) => a.name.localeCompare(b.name)),
+  }));
+}
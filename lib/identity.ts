@@ -0,0 +1,15 @@
+// How we appear to other participants. The participant identity itself is
+// assigned by the token route, so only the display name lives here.
+
+const NAME_KEY = "chef-claude:display-name";
+
+/** The name other cooks in a shared session see, if the user gave one. */
+export function getDisplayName(): string | undefined {
+  return localStorage.getItem(NAME_KEY) || undefined;
+}
+
+export function setDisplayName(name: string) {
+  const trimmed = name.trim().slice(0, 64);
+  if (trimmed) localStorage.setItem(NAME_KEY, trimmed);
+  else localStorage.removeItem(NAME_KEY);
+}
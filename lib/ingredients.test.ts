@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { formatIngredient, formatQuantity, ingredientKey, parseIngredient, readAmount } from "./ingredients";
+
+describe("readAmount", () => {
+  it.each([
+    ["2 eggs", 2],
+    ["1.5 cups", 1.5],
+    ["1/2 cup", 0.5],
+    ["1 1/2 cups", 1.5],
+    ["1½ cups", 1.5],
+    ["1 ½ cups", 1.5],
+    ["¾ cup", 0.75],
+  ])("reads %j as %d", (text, value) => {
+    expect(readAmount(text)?.value).toBeCloseTo(value);
+  });
+
+  it("returns null without a leading amount", () => {
+    expect(readAmount("salt to taste")).toBeNull();
+  });
+});
+
+describe("parseIngredient", () => {
+  it("splits quantity, unit, name and note", () => {
+    const parsed = parseIngredient("1 1/2 cups flour, sifted");
+    expect(parsed).toMatchObject({ quantity: 1.5, name: "flour", note: "sifted" });
+    expect(parsed.unit?.key).toBe("cup");
+  });
+
+  it("reads ranges", () => {
+    const parsed = parseIngredient("2-3 cloves garlic, minced");
+    expect(parsed).toMatchObject({ quantity: 2, quantityMax: 3, name: "garlic", note: "minced" });
+    expect(parsed.unit?.key).toBe("clove");
+  });
+
+  it("keeps packaging sizes as a note", () => {
+    const parsed = parseIngredient("1 (14 oz) can tomatoes");
+    expect(parsed).toMatchObject({ quantity: 1, name: "tomatoes", note: "14 oz" });
+    expect(parsed.unit?.key).toBe("can");
+  });
+
+  it("tells tablespoons from teaspoons by case", () => {
+    expect(parseIngredient("1 T sugar").unit?.key).toBe("tbsp");
+    expect(parseIngredient("1 t sugar").unit?.key).toBe("tsp");
+  });
+
+  it("doesn't take the name as a unit when nothing follows it", () => {
+    expect(parseIngredient("2 T").unit).toBeUndefined();
+  });
+
+  it("reads a trailing counted unit", () => {
+    const parsed = parseIngredient("3 garlic cloves");
+    expect(parsed).toMatchObject({ quantity: 3, name: "garlic" });
+    expect(parsed.unit?.key).toBe("clove");
+  });
+
+  it("leaves lines without a quantity alone", () => {
+    const parsed = parseIngredient("salt to taste");
+    expect(parsed.name).toBe("salt to taste");
+    expect(parsed.quantity).toBeUndefined();
+  });
+});
+
+describe("ingredientKey", () => {
+  it("matches plurals and descriptors", () => {
+    expect(ingredientKey("Large Tomatoes")).toBe(ingredientKey("tomato"));
+    expect(ingredientKey("fresh cherries")).toBe("cherry");
+  });
+});
+
+describe("formatQuantity", () => {
+  it.each([
+    [0.5, "½"],
+    [1.5, "1½"],
+    [0.33, "⅓"],
+    [2.97, "3"],
+    [25.4, "25"],
+  ])("formats %d as %j", (value, text) => {
+    expect(formatQuantity(value)).toBe(text);
+  });
+});
+
+describe("formatIngredient", () => {
+  it("returns the line unchanged when there is nothing to do", () => {
+    expect(formatIngredient("1 cup rice")).toBe("1 cup rice");
+  });
+
+  it("scales and pluralises", () => {
+    expect(formatIngredient("1 cup rice", 2)).toBe("2 cups rice");
+    expect(formatIngredient("2-3 cloves garlic", 2)).toBe("4–6 cloves garlic");
+  });
+
+  it("pluralises counted ingredients without a unit", () => {
+    expect(formatIngredient("1 egg", 2)).toBe("2 eggs");
+    expect(formatIngredient("1 large tomato", 3)).toBe("3 large tomatoes");
+    expect(formatIngredient("1 cherry", 2)).toBe("2 cherries");
+    expect(formatIngredient("2 eggs", 0.5)).toBe("1 egg");
+  });
+
+  it("converts to metric with round numbers", () => {
+    expect(formatIngredient("1 cup milk", 1, "metric")).toBe("235 ml milk");
+    expect(formatIngredient("2 lb potatoes", 1, "metric")).toBe("905 g potatoes");
+  });
+
+  it("keeps small metric amounts to a decimal place", () => {
+    expect(formatIngredient("0.5 g saffron", 0.5)).toBe("0.3 g saffron");
+    expect(formatIngredient("1 g saffron", 0.01)).toBe("0.1 g saffron");
+  });
+
+  it("keeps spoon measures in metric", () => {
+    expect(formatIngredient("2 tbsp olive oil", 1, "metric")).toBe("2 tbsp olive oil");
+  });
+
+  it("converts to imperial", () => {
+    expect(formatIngredient("500 g flour", 1, "imperial")).toBe("1⅛ lb flour");
+    expect(formatIngredient("30 ml soy sauce", 1, "imperial")).toBe("2 tbsp soy sauce");
+  });
+
+  it("leaves counted units and unparseable lines as they are", () => {
+    expect(formatIngredient("2 cans beans", 1, "metric")).toBe("2 cans beans");
+    expect(formatIngredient("salt to taste", 2)).toBe("salt to taste");
+  });
+});
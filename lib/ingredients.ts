@@ -0,0 +1,339 @@
+// Parsing of free-text ingredient lines like "1 1/2 cups flour, sifted" into
+// quantity, unit and name, plus the unit table used to add them up.
+
+export type Dimension = "volume" | "mass" | "count";
+
+export interface UnitDef {
+  key: string;
+  singular: string;
+  plural: string;
+  dimension: Dimension;
+  toBase: number; // millilitres for volume, grams for mass, 1 for counts
+  system?: "metric" | "imperial";
+  aliases: string[];
+}
+
+const UNITS: UnitDef[] = [
+  // Volume
+  { key: "tsp", singular: "tsp", plural: "tsp", dimension: "volume", toBase: 4.92892, system: "imperial", aliases: ["t", "tsp", "tsps", "teaspoon", "teaspoons"] },
+  { key: "tbsp", singular: "tbsp", plural: "tbsp", dimension: "volume", toBase: 14.7868, system: "imperial", aliases: ["T", "tbsp", "tbsps", "tbs", "tbl", "tablespoon", "tablespoons"] },
+  { key: "fl oz", singular: "fl oz", plural: "fl oz", dimension: "volume", toBase: 29.5735, system: "imperial", aliases: ["fl oz", "fl. oz", "fluid ounce", "fluid ounces"] },
+  { key: "cup", singular: "cup", plural: "cups", dimension: "volume", toBase: 236.588, system: "imperial", aliases: ["c", "cup", "cups"] },
+  { key: "pint", singular: "pint", plural: "pints", dimension: "volume", toBase: 473.176, system: "imperial", aliases: ["pt", "pint", "pints"] },
+  { key: "quart", singular: "quart", plural: "quarts", dimension: "volume", toBase: 946.353, system: "imperial", aliases: ["qt", "quart", "quarts"] },
+  { key: "gallon", singular: "gallon", plural: "gallons", dimension: "volume", toBase: 3785.41, system: "imperial", aliases: ["gal", "gallon", "gallons"] },
+  { key: "ml", singular: "ml", plural: "ml", dimension: "volume", toBase: 1, system: "metric", aliases: ["ml", "mL", "milliliter", "milliliters", "millilitre", "millilitres"] },
+  { key: "cl", singular: "cl", plural: "cl", dimension: "volume", toBase: 10, system: "metric", aliases: ["cl", "centiliter", "centiliters", "centilitre", "centilitres"] },
+  { key: "dl", singular: "dl", plural: "dl", dimension: "volume", toBase: 100, system: "metric", aliases: ["dl", "deciliter", "deciliters", "decilitre", "decilitres"] },
+  { key: "l", singular: "l", plural: "l", dimension: "volume", toBase: 1000, system: "metric", aliases: ["l", "L", "liter", "liters", "litre", "litres"] },
+  // Mass
+  { key: "mg", singular: "mg", plural: "mg", dimension: "mass", toBase: 0.001, system: "metric", aliases: ["mg", "milligram", "milligrams"] },
+  { key: "g", singular: "g", plural: "g", dimension: "mass", toBase: 1, system: "metric", aliases: ["g", "gr", "gram", "grams", "gramme", "grammes"] },
+  { key: "kg", singular: "kg", plural: "kg", dimension: "mass", toBase: 1000, system: "metric", aliases: ["kg", "kilo", "kilos", "kilogram", "kilograms"] },
+  { key: "oz", singular: "oz", plural: "oz", dimension: "mass", toBase: 28.3495, system: "imperial", aliases: ["oz", "ounce", "ounces"] },
+  { key: "lb", singular: "lb", plural: "lb", dimension: "mass", toBase: 453.592, system: "imperial", aliases: ["lb", "lbs", "pound", "pounds"] },
+  // Counted units; these only add up with themselves
+  { key: "clove", singular: "clove", plural: "cloves", dimension: "count", toBase: 1, aliases: ["clove", "cloves"] },
+  { key: "can", singular: "can", plural: "cans", dimension: "count", toBase: 1, aliases: ["can", "cans", "tin", "tins"] },
+  { key: "jar", singular: "jar", plural: "jars", dimension: "count", toBase: 1, aliases: ["jar", "jars"] },
+  { key: "package", singular: "package", plural: "packages", dimension: "count", toBase: 1, aliases: ["package", "packages", "pkg", "packet", "packets", "pack", "packs"] },
+  { key: "pinch", singular: "pinch", plural: "pinches", dimension: "count", toBase: 1, aliases: ["pinch", "pinches"] },
+  { key: "dash", singular: "dash", plural: "dashes", dimension: "count", toBase: 1, aliases: ["dash", "dashes"] },
+  { key: "slice", singular: "slice", plural: "slices", dimension: "count", toBase: 1, aliases: ["slice", "slices"] },
+  { key: "piece", singular: "piece", plural: "pieces", dimension: "count", toBase: 1, aliases: ["piece", "pieces", "pc", "pcs"] },
+  { key: "bunch", singular: "bunch", plural: "bunches", dimension: "count", toBase: 1, aliases: ["bunch", "bunches"] },
+  { key: "sprig", singular: "sprig", plural: "sprigs", dimension: "count", toBase: 1, aliases: ["sprig", "sprigs"] },
+  { key: "stalk", singular: "stalk", plural: "stalks", dimension: "count", toBase: 1, aliases: ["stalk", "stalks", "rib", "ribs"] },
+  { key: "stick", singular: "stick", plural: "sticks", dimension: "count", toBase: 1, aliases: ["stick", "sticks"] },
+  { key: "head", singular: "head", plural: "heads", dimension: "count", toBase: 1, aliases: ["head", "heads"] },
+  { key: "handful", singular: "handful", plural: "handfuls", dimension: "count", toBase: 1, aliases: ["handful", "handfuls"] },
+];
+
+const UNIT_BY_KEY = new Map(UNITS.map((unit) => [unit.key, unit]));
+
+// Single-letter aliases are case-sensitive ("T" is tablespoon, "t" teaspoon)
+const UNIT_BY_ALIAS = new Map<string, UnitDef>();
+for (const unit of UNITS) {
+  for (const alias of unit.aliases) {
+    UNIT_BY_ALIAS.set(alias.length === 1 ? alias : alias.toLowerCase(), unit);
+  }
+}
+
+export function getUnit(key: string): UnitDef | undefined {
+  return UNIT_BY_KEY.get(key);
+}
+
+export function allUnits(): readonly UnitDef[] {
+  return UNITS;
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 1 / 4, "½": 1 / 2, "¾": 3 / 4,
+  "⅓": 1 / 3, "⅔": 2 / 3,
+  "⅕": 1 / 5, "⅖": 2 / 5, "⅗": 3 / 5, "⅘": 4 / 5,
+  "⅙": 1 / 6, "⅚": 5 / 6,
+  "⅛": 1 / 8, "⅜": 3 / 8, "⅝": 5 / 8, "⅞": 7 / 8,
+};
+
+export const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join("");
+
+// "1 1/2", "1½", "1 ½", "1/2", "½", "1.5", "2"
+const AMOUNT_PATTERN = new RegExp(
+  `^(?:(\\d+)\\s+(\\d+)\\s*/\\s*(\\d+)|(\\d+)\\s*/\\s*(\\d+)|(\\d+)?\\s*([${FRACTION_CHARS}])|(\\d*\\.\\d+|\\d+))`,
+);
+
+const RANGE_SEPARATOR = /^\s*(?:-|–|—|to|or)\s*/i;
+
+/** Read a leading number, fraction or mixed number from `text`. */
+export function readAmount(text: string): { value: number; rest: string } | null {
+  const match = AMOUNT_PATTERN.exec(text);
+  if (!match) return null;
+  const [whole, mixedInt, mixedNum, mixedDen, num, den, uniInt, uniFrac, decimal] = match;
+  let value: number;
+  if (mixedInt !== undefined) {
+    value = Number(mixedInt) + Number(mixedNum) / Number(mixedDen);
+  } else if (num !== undefined) {
+    value = Number(num) / Number(den);
+  } else if (uniFrac !== undefined) {
+    value = Number(uniInt ?? 0) + UNICODE_FRACTIONS[uniFrac];
+  } else {
+    value = Number(decimal);
+  }
+  if (!Number.isFinite(value)) return null;
+  return { value, rest: text.slice(whole.length) };
+}
+
+function readUnit(text: string): { unit: UnitDef; rest: string } | null {
+  // Try two-word units ("fl oz", "fluid ounces") before single words
+  const words = text.match(/^([A-Za-z]+\.?)(?:\s+([A-Za-z]+\.?))?/);
+  if (!words) return null;
+  const candidates: string[] = [];
+  if (words[2]) candidates.push(`${words[1]} ${words[2]}`);
+  candidates.push(words[1]);
+  for (const candidate of candidates) {
+    const token = candidate.replace(/\.$/, "");
+    const unit = token.length === 1 ? UNIT_BY_ALIAS.get(token) : UNIT_BY_ALIAS.get(token.toLowerCase());
+    // A unit must be followed by something, otherwise "2 T" would swallow the name
+    const rest = text.slice(candidate.length);
+    if (unit && rest.trim().length > 0 && /^[\s.]/.test(rest)) {
+      return { unit, rest };
+    }
+  }
+  return null;
+}
+
+export interface ParsedIngredient {
+  raw: string;
+  quantity?: number;
+  quantityMax?: number; // upper bound for ranges like "2-3 cloves"
+  unit?: UnitDef;
+  name: string;
+  note?: string; // preparation or packaging, e.g. "minced" or "14 oz"
+}
+
+/** Split a free-text ingredient line into quantity, unit and name. */
+export function parseIngredient(raw: string): ParsedIngredient {
+  let rest = raw.trim();
+  const notes: string[] = [];
+  const result: ParsedIngredient = { raw, name: rest };
+
+  const amount = readAmount(rest);
+  if (amount) {
+    result.quantity = amount.value;
+    rest = amount.rest;
+    const separator = RANGE_SEPARATOR.exec(rest);
+    const upper = separator ? readAmount(rest.slice(separator[0].length)) : null;
+    if (separator && upper && upper.value > amount.value) {
+      result.quantityMax = upper.value;
+      rest = upper.rest;
+    }
+    rest = rest.trimStart();
+
+    // "1 (14 oz) can tomatoes"
+    const packaging = /^\(([^)]*)\)\s*/.exec(rest);
+    if (packaging) {
+      notes.push(packaging[1].trim());
+      rest = rest.slice(packaging[0].length);
+    }
+
+    const unit = readUnit(rest);
+    if (unit) {
+      result.unit = unit.unit;
+      rest = unit.rest.replace(/^[.\s]+/, "");
+    }
+    rest = rest.replace(/^of\s+/i, "");
+  }
+
+  // Trailing notes: "garlic, minced" / "butter (softened)"
+  rest = rest.replace(/\s*\(([^)]*)\)/g, (_, note: string) => {
+    notes.push(note.trim());
+    return "";
+  });
+  const comma = rest.indexOf(",");
+  if (comma >= 0) {
+    notes.push(rest.slice(comma + 1).trim());
+    rest = rest.slice(0, comma);
+  }
+
+  result.name = rest.trim() || raw.trim();
+
+  // "3 garlic cloves" reads the same as "3 cloves garlic"
+  if (result.quantity !== undefined && !result.unit) {
+    const trailing = /\s+([A-Za-z]+)$/.exec(result.name);
+    const unit = trailing ? UNIT_BY_ALIAS.get(trailing[1].toLowerCase()) : undefined;
+    if (trailing && unit?.dimension === "count") {
+      result.unit = unit;
+      result.name = result.name.slice(0, trailing.index);
+    }
+  }
+  const note = notes.filter(Boolean).join(", ");
+  if (note) result.note = note;
+  return result;
+}
+
+const DESCRIPTORS = /\b(large|medium|small|fresh|freshly|whole|ripe|optional|to taste|for garnish|for serving)\b/g;
+
+function singularize(word: string): string {
+  if (/ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/(oes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return word.slice(0, -1) + "ies";
+  if (/(ch|sh|s|x|tomato|potato)$/.test(word)) return word + "es";
+  return word + "s";
+}
+
+/** Key used to recognise the same ingredient across recipes. */
+export function ingredientKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(DESCRIPTORS, "")
+    .replace(/[^a-z\s-]/g, "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(" ");
+}
+
+const NICE_FRACTIONS: [number, string][] = [
+  [1 / 8, "⅛"], [1 / 4, "¼"], [1 / 3, "⅓"], [3 / 8, "⅜"], [1 / 2, "½"],
+  [5 / 8, "⅝"], [2 / 3, "⅔"], [3 / 4, "¾"], [7 / 8, "⅞"],
+];
+
+/** Format a quantity for display, snapping to kitchen fractions like 1½. */
+export function formatQuantity(value: number): string {
+  if (value >= 20) return String(Math.round(value));
+  if (value < 1 / 16) return String(Math.round(value * 100) / 100);
+  const whole = Math.floor(value);
+  const fraction = value - whole;
+  let best: [number, string] = [0, ""];
+  for (const candidate of [...NICE_FRACTIONS, [1, ""] as [number, string]]) {
+    if (Math.abs(fraction - candidate[0]) < Math.abs(fraction - best[0])) best = candidate;
+  }
+  if (best[0] === 1) return String(whole + 1);
+  if (!best[1]) return String(whole);
+  return whole > 0 ? `${whole}${best[1]}` : best[1];
+}
+
+// Metric amounts under one are written as decimals: 0.3 g, not ⅓ g
+function formatUnitQuantity(value: number, unit?: UnitDef): string {
+  return unit?.system === "metric" && value < 1 ? String(Math.round(value * 10) / 10) : formatQuantity(value);
+}
+
+/** Render a quantity (or range) with its unit, pluralised to match. */
+export function formatAmount(quantity: number, unit?: UnitDef, quantityMax?: number): string {
+  const amount =
+    quantityMax !== undefined
+      ? `${formatUnitQuantity(quantity, unit)}–${formatUnitQuantity(quantityMax, unit)}`
+      : formatUnitQuantity(quantity, unit);
+  if (!unit) return amount;
+  const plural = (quantityMax ?? quantity) > 1;
+  return `${amount} ${plural ? unit.plural : unit.singular}`;
+}
+
+export type UnitSystem = "metric" | "imperial";
+
+// Spoon measures are used as-is in metric kitchens too, up to about 4 tbsp
+const SPOON_LIMIT_ML = 60;
+
+function pickUnit(base: number, dimension: "volume" | "mass", system: UnitSystem): UnitDef {
+  const unit = (key: string) => UNIT_BY_KEY.get(key)!;
+  if (dimension === "mass") {
+    if (system === "metric") return base >= 1000 ? unit("kg") : unit("g");
+    return base >= unit("lb").toBase ? unit("lb") : unit("oz");
+  }
+  if (system === "metric") return base >= 1000 ? unit("l") : unit("ml");
+  if (base < unit("tbsp").toBase) return unit("tsp");
+  if (base < SPOON_LIMIT_ML) return unit("tbsp");
+  return base >= unit("quart").toBase * 2 ? unit("quart") : unit("cup");
+}
+
+// Metric amounts read better as round numbers than as fractions
+function roundMetric(value: number, unit: UnitDef): number {
+  if (unit.key === "l" || unit.key === "kg") return Math.round(value * 10) / 10;
+  if (value >= 100) return Math.round(value / 5) * 5;
+  // A pinch of saffron shouldn't come out as a whole gram
+  if (value < 1) return Math.max(0.1, Math.round(value * 10) / 10);
+  return Math.round(value);
+}
+
+// "1 egg" doubled is "2 eggs": with no unit the name is what gets counted
+function countedName(name: string, wasPlural: boolean, isPlural: boolean): string {
+  if (wasPlural === isPlural) return name;
+  return name.replace(/[a-z]+$/i, (word) => (isPlural ? pluralize(word) : singularize(word)));
+}
+
+/** Multiply an ingredient's quantity, e.g. when changing servings. */
+export function scaleIngredient(parsed: ParsedIngredient, factor: number): ParsedIngredient {
+  if (parsed.quantity === undefined || factor === 1) return parsed;
+  return {
+    ...parsed,
+    quantity: parsed.quantity * factor,
+    quantityMax: parsed.quantityMax !== undefined ? parsed.quantityMax * factor : undefined,
+  };
+}
+
+/** Re-express a volume or mass ingredient in the given unit system. */
+export function convertIngredient(parsed: ParsedIngredient, system: UnitSystem): ParsedIngredient {
+  const { unit, quantity } = parsed;
+  if (!unit || quantity === undefined || unit.dimension === "count") return parsed;
+  const isSpoon = unit.key === "tsp" || unit.key === "tbsp";
+  if (unit.system === system || (isSpoon && system === "metric")) return parsed;
+
+  const target = pickUnit((parsed.quantityMax ?? quantity) * unit.toBase, unit.dimension, system);
+  const convert = (value: number) => (value * unit.toBase) / target.toBase;
+  return {
+    ...parsed,
+    unit: target,
+    quantity: convert(quantity),
+    quantityMax: parsed.quantityMax !== undefined ? convert(parsed.quantityMax) : undefined,
+  };
+}
+
+/**
+ * Render an ingredient line scaled by `factor` and optionally converted to
+ * another unit system. Lines we can't parse are returned verbatim.
+ */
+export function formatIngredient(raw: string, factor = 1, system?: UnitSystem): string {
+  if (factor === 1 && !system) return raw;
+  let parsed = parseIngredient(raw);
+  if (parsed.quantity === undefined) return raw;
+  const wasPlural = (parsed.quantityMax ?? parsed.quantity) > 1;
+  parsed = scaleIngredient(parsed, factor);
+  if (system) parsed = convertIngredient(parsed, system);
+  if (parsed.unit?.system === "metric") {
+    const unit = parsed.unit;
+    parsed = {
+      ...parsed,
+      quantity: roundMetric(parsed.quantity!, unit),
+      quantityMax: parsed.quantityMax !== undefined ? roundMetric(parsed.quantityMax, unit) : undefined,
+    };
+  }
+  const amount = formatAmount(parsed.quantity!, parsed.unit, parsed.quantityMax);
+  const isPlural = (parsed.quantityMax ?? parsed.quantity!) > 1;
+  const name = parsed.unit ? parsed.name : countedName(parsed.name, wasPlural, isPlural);
+  return `${amount} ${name}${parsed.note ? `, ${parsed.note}` : ""}`;
+}
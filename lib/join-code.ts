@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Signed room credentials, so the token route needs no lookup table:
+// - A join code is the room name plus a truncated HMAC of it, so a code can't
+//   be made up without the signing key, whatever the room is called. Only
+//   the room's starter is given one to pass on.
+// - A resume token lets the cook who started a room back in after a reload or
+//   a dropped connection, under the same identity. It is handed only to that
+//   cook and expires.
+// Server-only; the signing key is the LiveKit API secret.
+
+export const JOIN_CODE_PATTERN = /^[\w-]{1,128}\.[\w-]{16}$/;
+export const RESUME_TOKEN_PATTERN = /^[\w-]{1,512}\.[\w-]{22}$/;
+
+// Longer than a saved session lives (lib/session), so any session can be resumed
+const RESUME_TTL_MS = 24 * 60 * 60 * 1000;
+
+function sign(message: string, secret: string, length: number): string {
+  return createHmac("sha256", secret).update(message).digest("base64url").slice(0, length);
+}
+
+function verify(message: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(sign(message, secret, signature.length));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function createJoinCode(room: string, secret: string): string {
+  return `${room}.${sign(`join:${room}`, secret, 16)}`;
+}
+
+/** The room a join code grants access to, or null if it wasn't signed by us. */
+export function roomFromJoinCode(code: string, secret: string): string | null {
+  if (!JOIN_CODE_PATTERN.test(code)) return null;
+  const dot = code.lastIndexOf(".");
+  const room = code.slice(0, dot);
+  return verify(`join:${room}`, code.slice(dot + 1), secret) ? room : null;
+}
+
+export interface ResumeClaims {
+  room: string;
+  identity: string;
+}
+
+export function createResumeToken({ room, identity }: ResumeClaims, secret: string, now = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({ room, identity, exp: now + RESUME_TTL_MS })).toString("base64url");
+  return `${payload}.${sign(`resume:${payload}`, secret, 22)}`;
+}
+
+/** The room and identity a resume token lets its holder back in as, or null if it is forged or expired. */
+export function readResumeToken(token: string, secret: string, now = Date.now()): ResumeClaims | null {
+  if (!RESUME_TOKEN_PATTERN.test(token)) return null;
+  const [payload, signature] = token.split(".");
+  if (!verify(`resume:${payload}`, signature, secret)) return null;
+  try {
+    const { room, identity, exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    const valid = typeof room === "string" && typeof identity === "string" && typeof exp === "number" && exp > now;
+    return valid ? { room, identity } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+// A value kept in localStorage as JSON, read the same way by plain functions
+// and by components, which re-render when it changes in this tab or another.
+
+const CHANGE_EVENT = "chef-claude:local-store-change";
+
+// Distinguishes "nothing stored" (null) from "not read yet" during server rendering
+const SERVER_SNAPSHOT = "\0server";
+
+export interface LocalStore<T> {
+  key: string;
+  parse: (raw: string | null) => T; // also given null when nothing is stored
+  /** The stored value, or what `parse` makes of nothing during server rendering. */
+  read(): T;
+  /** Store a value, or remove it with null. Failures are logged, not thrown. */
+  write(value: T | null): void;
+}
+
+export function createLocalStore<T>(key: string, parse: (raw: string | null) => T): LocalStore<T> {
+  return {
+    key,
+    parse,
+    read() {
+      if (typeof window === "undefined") return parse(null);
+      return parse(localStorage.getItem(key));
+    },
+    write(value) {
+      try {
+        if (value === null) localStorage.removeItem(key);
+        else localStorage.setItem(key, JSON.stringify(value));
+        window.dispatchEvent(new Event(CHANGE_EVENT));
+      } catch (err) {
+        // Quota exceeded or storage disabled (private browsing)
+        console.warn(`[local-store] failed to save ${key}`, err);
+      }
+    },
+  };
+}
+
+function subscribe(callback: () => void) {
+  window.addEventListener(CHANGE_EVENT, callback);
+  window.addEventListener("storage", callback);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, callback);
+    window.removeEventListener("storage", callback);
+  };
+}
+
+/** The stored value. Null until hydrated on the client. */
+export function useLocalStore<T>(store: LocalStore<T>): T | null {
+  const raw = useSyncExternalStore(subscribe, () => localStorage.getItem(store.key), () => SERVER_SNAPSHOT);
+  return useMemo(() => (raw === SERVER_SNAPSHOT ? null : store.parse(raw)), [raw, store]);
+}
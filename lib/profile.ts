@@ -0,0 +1,65 @@
+import type { UnitSystem } from "./ingredients";
+import { createLocalStore, useLocalStore } from "./local-store";
+import type { WireCookingProfile } from "./protocol";
+
+// The user's cooking profile, kept locally and handed to the agent with each
+// new session so it never has to ask twice.
+
+export type SkillLevel = "beginner" | "intermediate" | "advanced";
+
+export interface CookingProfile {
+  diet: string[];
+  allergies: string[];
+  dislikes: string[];
+  skill?: SkillLevel;
+  equipment: string[];
+  units?: UnitSystem; // default for ingredient amounts; as written when unset
+}
+
+export const EMPTY_PROFILE: CookingProfile = { diet: [], allergies: [], dislikes: [], equipment: [] };
+
+export function isEmptyProfile(profile: CookingProfile): boolean {
+  return (
+    profile.diet.length === 0 &&
+    profile.allergies.length === 0 &&
+    profile.dislikes.length === 0 &&
+    profile.equipment.length === 0 &&
+    !profile.skill &&
+    !profile.units
+  );
+}
+
+function parseProfile(raw: string | null): CookingProfile {
+  if (!raw) return EMPTY_PROFILE;
+  try {
+    return { ...EMPTY_PROFILE, ...JSON.parse(raw) };
+  } catch {
+    return EMPTY_PROFILE;
+  }
+}
+
+const store = createLocalStore("chef-claude:profile", parseProfile);
+
+export function loadProfile(): CookingProfile {
+  return store.read();
+}
+
+export function saveProfile(profile: CookingProfile) {
+  store.write(isEmptyProfile(profile) ? null : profile);
+}
+
+export function toWireProfile(profile: CookingProfile): WireCookingProfile {
+  return {
+    diet: profile.diet,
+    allergies: profile.allergies,
+    dislikes: profile.dislikes,
+    skill: profile.skill,
+    equipment: profile.equipment,
+    units: profile.units,
+  };
+}
+
+/** The saved profile. Null until hydrated on the client. */
+export function useProfile(): CookingProfile | null {
+  return useLocalStore(store);
+}
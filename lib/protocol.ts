@@ -0,0 +1,716 @@
+import type { LocalParticipant } from "livekit-client";
+
+// Wire protocol for the LiveKit data channel shared with the Chef Claude agent.
+// Every message is a JSON object with a `type` discriminator and a `version`.
+// Messages without a version are treated as the current version so older
+// agents keep working.
+
+export const PROTOCOL_VERSION = 1;
+
+export const Topic = {
+  Timer: "timer",
+  CameraRequest: "camera_request",
+  Recipe: "recipe",
+  Suggestions: "suggestions",
+  GroceryList: "grocery_list",
+  DishSelection: "dish_selection",
+  Session: "session",
+} as const;
+
+export type Topic = (typeof Topic)[keyof typeof Topic];
+
+// --- Agent -> UI messages ---
+
+export interface SetTimerMessage {
+  type: "set_timer";
+  id?: string;
+  label: string;
+  duration_seconds: number;
+}
+
+// Timer controls identify their target by id, falling back to a label match
+// (or the only running timer) when the agent only heard "pause the timer".
+export interface TimerControlMessage {
+  type: "pause_timer" | "resume_timer" | "cancel_timer";
+  id?: string;
+  label?: string;
+}
+
+export interface ExtendTimerMessage {
+  type: "extend_timer";
+  id?: string;
+  label?: string;
+  seconds: number;
+}
+
+export interface RequestCameraMessage {
+  type: "request_camera";
+}
+
+export interface RecipeStartMessage {
+  type: "recipe_start";
+  title: string;
+  servings?: number;
+  prep_time_minutes?: number;
+  ingredients?: string[];
+  steps?: string[];
+}
+
+export interface RecipeRefreshMessage {
+  type: "recipe_refresh";
+  title?: string;
+  ingredients?: string[];
+  steps?: string[];
+}
+
+export interface StepUpdateMessage {
+  type: "step_update";
+  step_number: number; // 1-based
+}
+
+export interface RecipeUpdateMessage {
+  type: "recipe_update";
+  tutorial_url?: string;
+  tutorial_title?: string;
+  tutorial_source?: string;
+  og_image?: string;
+  og_title?: string;
+  og_description?: string;
+}
+
+export interface RecipeEndMessage {
+  type: "recipe_end";
+}
+
+export interface WireDishOption {
+  title: string;
+  description: string;
+  cuisine?: string;
+  time_minutes?: number;
+  difficulty?: string; // "easy" | "medium" | "hard"
+  dietary_tags?: string[]; // e.g. "vegetarian", "gluten-free"
+  image_url?: string;
+}
+
+export interface DishSuggestionsMessage {
+  type: "dish_suggestions";
+  options: WireDishOption[];
+}
+
+export interface WireGroceryItem {
+  recipe: string;
+  ingredients: string[];
+  checked?: string[];
+}
+
+export interface GroceryListUpdateMessage {
+  type: "grocery_list_update" | "grocery_list_show";
+  items: WireGroceryItem[];
+}
+
+export type AgentMessage =
+  | SetTimerMessage
+  | TimerControlMessage
+  | ExtendTimerMessage
+  | RequestCameraMessage
+  | RecipeStartMessage
+  | RecipeRefreshMessage
+  | StepUpdateMessage
+  | RecipeUpdateMessage
+  | RecipeEndMessage
+  | DishSuggestionsMessage
+  | GroceryListUpdateMessage;
+
+// --- Byte streams ---
+
+// Still photos from the user's camera are sent as a JPEG byte stream on this
+// topic rather than as a data message. Stream attributes carry the context:
+// `step_number` (when a recipe step is active), `recipe_title` and `question`,
+// the check the user wants, e.g. "Does this look right?".
+export const SNAPSHOT_TOPIC = "camera_snapshot";
+
+// --- Participant metadata ---
+
+// The user's standing preferences, set as the UI participant's metadata
+// (`{"profile": ...}`) when the token is issued, so the agent has them from
+// the moment it joins.
+export interface WireCookingProfile {
+  diet: string[]; // e.g. "vegetarian", "halal"
+  allergies: string[];
+  dislikes: string[];
+  skill?: "beginner" | "intermediate" | "advanced";
+  equipment: string[];
+  units?: "metric" | "imperial";
+}
+
+// Every UI participant also carries a `role` attribute, set by the token
+// route: "host" for whoever started the room, "guest" for cooks who joined
+// with an invite code.
+export type ParticipantRole = "host" | "guest";
+
+// --- UI -> agent messages ---
+
+export interface SelectDishMessage {
+  type: "select_dish";
+  title: string;
+}
+
+export interface WireSuggestionFilters {
+  cuisine?: string;
+  max_time_minutes?: number;
+  difficulty?: string;
+  dietary_tags?: string[];
+}
+
+// "Show me more like this" for one of the current options
+export interface MoreLikeThisMessage {
+  type: "more_like_this";
+  title: string;
+  filters?: WireSuggestionFilters;
+}
+
+// "None of these, try again": new options, avoiding the rejected ones
+export interface RetrySuggestionsMessage {
+  type: "retry_suggestions";
+  rejected: string[];
+  filters?: WireSuggestionFilters;
+}
+
+// The user asked for swaps for ingredients that clash with their profile
+export interface RequestSubstitutionMessage {
+  type: "request_substitution";
+  ingredients: { ingredient: string; reasons: string[] }[]; // reasons like "dairy allergy", "vegan"
+}
+
+// The user rescaled the recipe card; the agent should quote matching amounts
+export interface SetServingsMessage {
+  type: "set_servings";
+  servings: number;
+  original_servings: number;
+}
+
+// The user moved to a step by hand; the agent should continue from there
+export interface GoToStepMessage {
+  type: "go_to_step";
+  step_number: number; // 1-based
+}
+
+// Notes the user left on earlier cooks of the same dish, shared on request
+export interface CookNotesMessage {
+  type: "cook_notes";
+  recipe_title: string;
+  notes: { cooked_at: string; rating?: number; text?: string }[]; // ISO 8601, rating 1-5
+}
+
+export interface GroceryItemToggleMessage {
+  type: "grocery_item_toggle";
+  recipe: string;
+  ingredient: string;
+  checked: boolean;
+  items: WireGroceryItem[]; // full list after the toggle
+}
+
+export interface WireTimerState {
+  id: string;
+  label: string;
+  duration_seconds: number;
+  remaining_seconds: number;
+  paused: boolean;
+  ends_at: number | null; // epoch ms, null while paused
+  step_number?: number; // set when the user started it from a duration in the step text
+}
+
+export type TimerEvent = "started" | "paused" | "resumed" | "extended" | "cancelled" | "finished";
+
+export interface TimerStateMessage {
+  type: "timer_state";
+  event: TimerEvent;
+  timer_id: string;
+  timers: WireTimerState[];
+}
+
+export interface WireRecipe {
+  title: string;
+  servings: number;
+  scaled_servings?: number;
+  prep_time_minutes: number;
+  ingredients: string[];
+  steps: string[];
+  current_step?: number; // 1-based
+  tutorial_url?: string;
+  tutorial_title?: string;
+  tutorial_source?: string;
+  og_image?: string;
+  og_title?: string;
+  og_description?: string;
+}
+
+// Sent when an agent joins a room whose session was restored from storage,
+// so it can pick up where the previous conversation left off.
+export interface SessionStateMessage {
+  type: "session_state";
+  recipe: WireRecipe | null;
+  grocery_list: WireGroceryItem[];
+  dish_suggestions: WireDishOption[];
+  timers: WireTimerState[];
+  recent_transcript: { role: "user" | "agent"; text: string }[];
+}
+
+export type ClientMessage =
+  | SelectDishMessage
+  | MoreLikeThisMessage
+  | RetrySuggestionsMessage
+  | TimerStateMessage
+  | SessionStateMessage
+  | GroceryItemToggleMessage
+  | SetServingsMessage
+  | GoToStepMessage
+  | CookNotesMessage
+  | RequestSubstitutionMessage;
+
+// When cooks share a room, the other UIs receive these too and apply them, so
+// everyone sees the same recipe, step and grocery list. Each UI also sends its
+// `session_state` directly to any cook who joins late.
+export type PeerMessage = SessionStateMessage | GoToStepMessage | SetServingsMessage | GroceryItemToggleMessage;
+
+// --- Runtime validation ---
+
+type FieldSpec =
+  | { kind: "string" | "number" | "boolean" | "string[]"; optional?: boolean }
+  | { kind: "object" | "object[]"; fields: Fields; optional?: boolean };
+
+type Fields = Record<string, FieldSpec>;
+
+interface MessageSchema {
+  topic: Topic;
+  fields: Fields;
+}
+
+const dishOptionFields: Fields = {
+  title: { kind: "string" },
+  description: { kind: "string" },
+  cuisine: { kind: "string", optional: true },
+  time_minutes: { kind: "number", optional: true },
+  difficulty: { kind: "string", optional: true },
+  dietary_tags: { kind: "string[]", optional: true },
+  image_url: { kind: "string", optional: true },
+};
+
+const groceryItemFields: Fields = {
+  recipe: { kind: "string" },
+  ingredients: { kind: "string[]" },
+  checked: { kind: "string[]", optional: true },
+};
+
+const timerTargetFields: Fields = {
+  id: { kind: "string", optional: true },
+  label: { kind: "string", optional: true },
+};
+
+const AGENT_SCHEMAS: Record<AgentMessage["type"], MessageSchema> = {
+  set_timer: {
+    topic: Topic.Timer,
+    fields: {
+      id: { kind: "string", optional: true },
+      label: { kind: "string" },
+      duration_seconds: { kind: "number" },
+    },
+  },
+  pause_timer: { topic: Topic.Timer, fields: timerTargetFields },
+  resume_timer: { topic: Topic.Timer, fields: timerTargetFields },
+  cancel_timer: { topic: Topic.Timer, fields: timerTargetFields },
+  extend_timer: {
+    topic: Topic.Timer,
+    fields: { ...timerTargetFields, seconds: { kind: "number" } },
+  },
+  request_camera: { topic: Topic.CameraRequest, fields: {} },
+  recipe_start: {
+    topic: Topic.Recipe,
+    fields: {
+      title: { kind: "string" },
+      servings: { kind: "number", optional: true },
+      prep_time_minutes: { kind: "number", optional: true },
+      ingredients: { kind: "string[]", optional: true },
+      steps: { kind: "string[]", optional: true },
+    },
+  },
+  recipe_refresh: {
+    topic: Topic.Recipe,
+    fields: {
+      title: { kind: "string", optional: true },
+      ingredients: { kind: "string[]", optional: true },
+      steps: { kind: "string[]", optional: true },
+    },
+  },
+  step_update: {
+    topic: Topic.Recipe,
+    fields: { step_number: { kind: "number" } },
+  },
+  recipe_update: {
+    topic: Topic.Recipe,
+    fields: {
+      tutorial_url: { kind: "string", optional: true },
+      tutorial_title: { kind: "string", optional: true },
+      tutorial_source: { kind: "string", optional: true },
+      og_image: { kind: "string", optional: true },
+      og_title: { kind: "string", optional: true },
+      og_description: { kind: "string", optional: true },
+    },
+  },
+  recipe_end: { topic: Topic.Recipe, fields: {} },
+  dish_suggestions: {
+    topic: Topic.Suggestions,
+    fields: { options: { kind: "object[]", fields: dishOptionFields } },
+  },
+  grocery_list_update: {
+    topic: Topic.GroceryList,
+    fields: { items: { kind: "object[]", fields: groceryItemFields } },
+  },
+  grocery_list_show: {
+    topic: Topic.GroceryList,
+    fields: { items: { kind: "object[]", fields: groceryItemFields } },
+  },
+};
+
+const wireRecipeFields: Fields = {
+  title: { kind: "string" },
+  servings: { kind: "number" },
+  scaled_servings: { kind: "number", optional: true },
+  prep_time_minutes: { kind: "number" },
+  ingredients: { kind: "string[]" },
+  steps: { kind: "string[]" },
+  current_step: { kind: "number", optional: true },
+  tutorial_url: { kind: "string", optional: true },
+  tutorial_title: { kind: "string", optional: true },
+  tutorial_source: { kind: "string", optional: true },
+  og_image: { kind: "string", optional: true },
+  og_title: { kind: "string", optional: true },
+  og_description: { kind: "string", optional: true },
+};
+
+const wireTimerFields: Fields = {
+  id: { kind: "string" },
+  label: { kind: "string" },
+  duration_seconds: { kind: "number" },
+  remaining_seconds: { kind: "number" },
+  paused: { kind: "boolean" },
+  ends_at: { kind: "number", optional: true },
+  step_number: { kind: "number", optional: true },
+};
+
+const PEER_SCHEMAS: Record<PeerMessage["type"], MessageSchema> = {
+  session_state: {
+    topic: Topic.Session,
+    fields: {
+      recipe: { kind: "object", fields: wireRecipeFields, optional: true },
+      grocery_list: { kind: "object[]", fields: groceryItemFields },
+      dish_suggestions: { kind: "object[]", fields: dishOptionFields },
+      timers: { kind: "object[]", fields: wireTimerFields },
+      recent_transcript: {
+        kind: "object[]",
+        fields: { role: { kind: "string" }, text: { kind: "string" } },
+      },
+    },
+  },
+  go_to_step: {
+    topic: Topic.Recipe,
+    fields: { step_number: { kind: "number" } },
+  },
+  set_servings: {
+    topic: Topic.Recipe,
+    fields: { servings: { kind: "number" }, original_servings: { kind: "number" } },
+  },
+  grocery_item_toggle: {
+    topic: Topic.GroceryList,
+    fields: {
+      recipe: { kind: "string" },
+      ingredient: { kind: "string" },
+      checked: { kind: "boolean" },
+      items: { kind: "object[]", fields: groceryItemFields },
+    },
+  },
+};
+
+const suggestionFilterFields: Fields = {
+  cuisine: { kind: "string", optional: true },
+  max_time_minutes: { kind: "number", optional: true },
+  difficulty: { kind: "string", optional: true },
+  dietary_tags: { kind: "string[]", optional: true },
+};
+
+// Everything the UI publishes; only replays decode these, since the agent
+// and other cooks each read just their own part
+const CLIENT_SCHEMAS: Record<ClientMessage["type"], MessageSchema> = {
+  ...PEER_SCHEMAS,
+  select_dish: {
+    topic: Topic.DishSelection,
+    fields: { title: { kind: "string" } },
+  },
+  more_like_this: {
+    topic: Topic.Suggestions,
+    fields: { title: { kind: "string" }, filters: { kind: "object", fields: suggestionFilterFields, optional: true } },
+  },
+  retry_suggestions: {
+    topic: Topic.Suggestions,
+    fields: {
+      rejected: { kind: "string[]" },
+      filters: { kind: "object", fields: suggestionFilterFields, optional: true },
+    },
+  },
+  timer_state: {
+    topic: Topic.Timer,
+    fields: {
+      event: { kind: "string" },
+      timer_id: { kind: "string" },
+      timers: { kind: "object[]", fields: wireTimerFields },
+    },
+  },
+  cook_notes: {
+    topic: Topic.Recipe,
+    fields: {
+      recipe_title: { kind: "string" },
+      notes: {
+        kind: "object[]",
+        fields: {
+          cooked_at: { kind: "string" },
+          rating: { kind: "number", optional: true },
+          text: { kind: "string", optional: true },
+        },
+      },
+    },
+  },
+  request_substitution: {
+    topic: Topic.Recipe,
+    fields: {
+      ingredients: {
+        kind: "object[]",
+        fields: { ingredient: { kind: "string" }, reasons: { kind: "string[]" } },
+      },
+    },
+  },
+};
+
+// Keys every message may carry regardless of its type
+const ENVELOPE_KEYS = new Set(["type", "version"]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  fields: Fields,
+  path: string,
+  errors: string[],
+  warnings: string[],
+  ignoredKeys: Set<string> = new Set(),
+) {
+  for (const [key, spec] of Object.entries(fields)) {
+    const field = value[key];
+    const where = `${path}${key}`;
+    // Agents commonly send `null` for absent optional fields
+    if (field === undefined || field === null) {
+      if (!spec.optional) errors.push(`missing required field "${where}"`);
+      continue;
+    }
+    switch (spec.kind) {
+      case "string":
+      case "number":
+      case "boolean":
+        if (typeof field !== spec.kind) {
+          errors.push(`"${where}" should be a ${spec.kind}, got ${typeof field}`);
+        } else if (spec.kind === "number" && !Number.isFinite(field)) {
+          errors.push(`"${where}" should be a finite number`);
+        }
+        break;
+      case "string[]":
+        if (!Array.isArray(field) || field.some((f) => typeof f !== "string")) {
+          errors.push(`"${where}" should be an array of strings`);
+        }
+        break;
+      case "object":
+        if (!isRecord(field)) {
+          errors.push(`"${where}" should be an object`);
+        } else {
+          checkFields(field, spec.fields, `${where}.`, errors, warnings);
+        }
+        break;
+      case "object[]":
+        if (!Array.isArray(field)) {
+          errors.push(`"${where}" should be an array`);
+          break;
+        }
+        field.forEach((item, i) => {
+          if (!isRecord(item)) {
+            errors.push(`"${where}[${i}]" should be an object`);
+          } else {
+            checkFields(item, spec.fields, `${where}[${i}].`, errors, warnings);
+          }
+        });
+        break;
+    }
+  }
+
+  // Unknown keys don't invalidate a message, but they are usually a sign the
+  // agent renamed a field we still depend on
+  for (const key of Object.keys(value)) {
+    if (!(key in fields) && !ignoredKeys.has(key)) {
+      warnings.push(`unknown field "${path}${key}"`);
+    }
+  }
+}
+
+// Strip nulls so optional fields are simply absent on the typed message
+function stripNulls(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null));
+}
+
+export type DecodeResult<T = AgentMessage> =
+  | { ok: true; message: T; warnings: string[] }
+  | { ok: false; error: string; warnings: string[] };
+
+function parsePayload(payload: Uint8Array): { ok: true; raw: unknown } | { ok: false } {
+  try {
+    return { ok: true, raw: JSON.parse(new TextDecoder().decode(payload)) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/** Parse and validate a raw data-channel payload received on `topic`. */
+export function decodeAgentMessage(payload: Uint8Array, topic: string | undefined): DecodeResult {
+  const parsed = parsePayload(payload);
+  if (!parsed.ok) return { ok: false, error: "payload is not valid JSON", warnings: [] };
+  return validateAgentMessage(parsed.raw, topic);
+}
+
+/** Validate an already-parsed message object received on `topic`. */
+export function validateAgentMessage(raw: unknown, topic: string | undefined): DecodeResult {
+  return validateMessage<AgentMessage>(raw, topic, AGENT_SCHEMAS);
+}
+
+/** The topic an agent message of this type is sent on. */
+export function agentMessageTopic(type: AgentMessage["type"]): Topic {
+  return AGENT_SCHEMAS[type].topic;
+}
+
+/**
+ * Parse and validate a payload published by another cook's UI. Messages meant
+ * only for the agent (e.g. `timer_state`) decode to null.
+ */
+export function decodePeerMessage(payload: Uint8Array, topic: string | undefined): DecodeResult<PeerMessage | null> {
+  const parsed = parsePayload(payload);
+  if (!parsed.ok) return { ok: false, error: "payload is not valid JSON", warnings: [] };
+  const { raw } = parsed;
+  if (isRecord(raw) && typeof raw.type === "string" && raw.type in CLIENT_SCHEMAS && !(raw.type in PEER_SCHEMAS)) {
+    return { ok: true, message: null, warnings: [] };
+  }
+  return validateMessage<PeerMessage>(raw, topic, PEER_SCHEMAS);
+}
+
+/** Validate a message the UI published, e.g. one read back from an event log file. */
+export function decodeClientMessage(payload: Uint8Array, topic: string | undefined): DecodeResult<ClientMessage> {
+  const parsed = parsePayload(payload);
+  if (!parsed.ok) return { ok: false, error: "payload is not valid JSON", warnings: [] };
+  return validateMessage<ClientMessage>(parsed.raw, topic, CLIENT_SCHEMAS);
+}
+
+function validateMessage<T>(
+  raw: unknown,
+  topic: string | undefined,
+  schemas: Record<string, MessageSchema>,
+): DecodeResult<T> {
+  const warnings: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { ok: false, error: "message is not a JSON object", warnings };
+  }
+
+  if (raw.version !== undefined) {
+    if (typeof raw.version !== "number" || !Number.isInteger(raw.version)) {
+      return { ok: false, error: `invalid protocol version ${JSON.stringify(raw.version)}`, warnings };
+    }
+    if (raw.version > PROTOCOL_VERSION) {
+      return {
+        ok: false,
+        error: `unsupported protocol version ${raw.version} (UI speaks ${PROTOCOL_VERSION})`,
+        warnings,
+      };
+    }
+  }
+
+  if (typeof raw.type !== "string") {
+    return { ok: false, error: "missing message type", warnings };
+  }
+
+  const schema = schemas[raw.type] as MessageSchema | undefined;
+  if (!schema) {
+    return { ok: false, error: `unknown message type "${raw.type}"`, warnings };
+  }
+  if (schema.topic !== topic) {
+    return {
+      ok: false,
+      error: `message type "${raw.type}" is not valid on topic "${topic ?? "(none)"}"`,
+      warnings,
+    };
+  }
+
+  const errors: string[] = [];
+  checkFields(raw, schema.fields, "", errors, warnings, ENVELOPE_KEYS);
+  if (errors.length > 0) {
+    return { ok: false, error: `invalid "${raw.type}": ${errors.join("; ")}`, warnings };
+  }
+
+  return { ok: true, message: stripNulls(raw) as unknown as T, warnings };
+}
+
+/** Log the outcome of a decode so schema drift is visible in the console. */
+export function reportDecodeResult(result: DecodeResult<unknown>, topic: string | undefined) {
+  const label = `[protocol] topic "${topic ?? "(none)"}"`;
+  for (const warning of result.warnings) {
+    console.warn(`${label}: ${warning}`);
+  }
+  if (!result.ok) {
+    console.error(`${label}: dropped message, ${result.error}`);
+  }
+}
+
+/** Serialize a UI message with the current protocol version. */
+export function encodeClientMessage(message: ClientMessage): { payload: Uint8Array; topic: Topic } {
+  const payload = new TextEncoder().encode(JSON.stringify({ version: PROTOCOL_VERSION, ...message }));
+  return { payload, topic: CLIENT_SCHEMAS[message.type].topic };
+}
+
+export interface DataMessageEvent {
+  direction: "received" | "published";
+  topic?: string;
+  participant?: string; // sender identity, for received messages
+  agent?: boolean; // the sender was the agent rather than another cook
+}
+
+/** Sees raw data-channel messages, e.g. for the event log and diagnostics. */
+export type DataMessageObserver = (event: DataMessageEvent, payload: Uint8Array) => void;
+
+let observer: DataMessageObserver | null = null;
+
+/** Hand published messages to `next` until the returned function is called. */
+export function setDataMessageObserver(next: DataMessageObserver): () => void {
+  observer = next;
+  return () => {
+    if (observer === next) observer = null;
+  };
+}
+
+/**
+ * Publish a UI message over the reliable data channel. It goes to everyone in
+ * the room (the agent and any other cooks) unless `destinationIdentities` is set.
+ */
+export async function publishClientMessage(
+  participant: LocalParticipant,
+  message: ClientMessage,
+  destinationIdentities?: string[],
+) {
+  const { payload, topic } = encodeClientMessage(message);
+  observer?.({ direction: "published", topic }, payload);
+  await participant.publishData(payload, { topic, reliable: true, destinationIdentities });
+}
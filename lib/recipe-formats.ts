@@ -0,0 +1,243 @@
+import { formatIngredient } from "./ingredients";
+import type { WireRecipe } from "./protocol";
+import type { Recipe } from "./types";
+
+// Conversions between our Recipe model and other formats: the agent wire
+// format, schema.org JSON-LD (import and export) and Markdown.
+
+export function toWireRecipe(recipe: Recipe): WireRecipe {
+  return {
+    title: recipe.title,
+    servings: recipe.servings,
+    scaled_servings: recipe.scaledServings,
+    prep_time_minutes: recipe.prepTimeMinutes,
+    ingredients: recipe.ingredients,
+    steps: recipe.steps,
+    current_step: recipe.currentStep,
+    tutorial_url: recipe.tutorialUrl,
+    tutorial_title: recipe.tutorialTitle,
+    tutorial_source: recipe.tutorialSource,
+    og_image: recipe.ogImage,
+    og_title: recipe.ogTitle,
+    og_description: recipe.ogDescription,
+  };
+}
+
+export function fromWireRecipe(recipe: WireRecipe): Recipe {
+  return {
+    title: recipe.title,
+    servings: recipe.servings,
+    scaledServings: recipe.scaled_servings,
+    prepTimeMinutes: recipe.prep_time_minutes,
+    ingredients: recipe.ingredients,
+    steps: recipe.steps,
+    currentStep: recipe.current_step,
+    tutorialUrl: recipe.tutorial_url,
+    tutorialTitle: recipe.tutorial_title,
+    tutorialSource: recipe.tutorial_source,
+    ogImage: recipe.og_image,
+    ogTitle: recipe.og_title,
+    ogDescription: recipe.og_description,
+  };
+}
+
+export function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^\w\s-]/g, "")
+      .trim()
+      .replace(/[\s_-]+/g, "-") || "recipe"
+  );
+}
+
+/** Ingredient lines as displayed, i.e. scaled to the chosen servings. */
+function displayedIngredients(recipe: Recipe): string[] {
+  const servings = recipe.scaledServings ?? recipe.servings;
+  return recipe.ingredients.map((ingredient) => formatIngredient(ingredient, servings / recipe.servings));
+}
+
+function toIsoDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  return `PT${h ? `${h}H` : ""}${m || !h ? `${m}M` : ""}`;
+}
+
+function fromIsoDuration(value: unknown): number | undefined {
+  if (typeof value !== "string") return undefined;
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i.exec(value.trim());
+  if (!match) return undefined;
+  const [, d, h, m, s] = match.map((part) => Number(part ?? 0));
+  return d * 24 * 60 + h * 60 + m + Math.round(s / 60);
+}
+
+/** Build a schema.org Recipe object for the recipe as currently displayed. */
+export function toJsonLd(recipe: Recipe): Record<string, unknown> {
+  const servings = recipe.scaledServings ?? recipe.servings;
+  const jsonLd: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.title,
+    recipeYield: `${servings} serving${servings !== 1 ? "s" : ""}`,
+    recipeIngredient: displayedIngredients(recipe),
+    recipeInstructions: recipe.steps.map((text, i) => ({
+      "@type": "HowToStep",
+      position: i + 1,
+      text,
+    })),
+  };
+  if (recipe.prepTimeMinutes > 0) jsonLd.prepTime = toIsoDuration(recipe.prepTimeMinutes);
+  if (recipe.ogDescription) jsonLd.description = recipe.ogDescription;
+  if (recipe.ogImage) jsonLd.image = recipe.ogImage;
+  if (recipe.tutorialUrl) {
+    jsonLd.isBasedOn = {
+      "@type": "CreativeWork",
+      url: recipe.tutorialUrl,
+      ...(recipe.ogTitle || recipe.tutorialTitle ? { name: recipe.ogTitle || recipe.tutorialTitle } : {}),
+      ...(recipe.ogDescription ? { description: recipe.ogDescription } : {}),
+      ...(recipe.ogImage ? { image: recipe.ogImage } : {}),
+      ...(recipe.tutorialSource ? { publisher: { "@type": "Organization", name: recipe.tutorialSource } } : {}),
+    };
+  }
+  return jsonLd;
+}
+
+export function toMarkdown(recipe: Recipe): string {
+  const servings = recipe.scaledServings ?? recipe.servings;
+  const lines = [`# ${recipe.title}`, ""];
+  const facts = [`${servings} serving${servings !== 1 ? "s" : ""}`];
+  if (recipe.prepTimeMinutes > 0) facts.unshift(`${recipe.prepTimeMinutes} min`);
+  lines.push(`*${facts.join(" · ")}*`, "");
+  if (recipe.ogImage) lines.push(`![${recipe.ogTitle ?? recipe.title}](${recipe.ogImage})`, "");
+  if (recipe.ogDescription) lines.push(`> ${recipe.ogDescription}`, "");
+  if (recipe.tutorialUrl) {
+    const title = recipe.ogTitle || recipe.tutorialTitle || "Tutorial";
+    lines.push(`Tutorial: [${title}](${recipe.tutorialUrl})${recipe.tutorialSource ? ` (${recipe.tutorialSource})` : ""}`, "");
+  }
+  lines.push("## Ingredients", "", ...displayedIngredients(recipe).map((i) => `- ${i}`), "");
+  lines.push("## Steps", "", ...recipe.steps.map((step, i) => `${i + 1}. ${step}`), "");
+  return lines.join("\n");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRecipeNode(node: Record<string, unknown>): boolean {
+  const type = node["@type"];
+  return type === "Recipe" || (Array.isArray(type) && type.includes("Recipe"));
+}
+
+// Recipes are often nested in a @graph or a top-level array alongside other nodes
+function findRecipeNode(value: unknown): Record<string, unknown> | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findRecipeNode(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (!isRecord(value)) return undefined;
+  if (isRecipeNode(value)) return value;
+  return findRecipeNode(value["@graph"]);
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function imageUrl(value: unknown): string | undefined {
+  if (Array.isArray(value)) return imageUrl(value[0]);
+  if (isRecord(value)) return text(value.url) ?? text(value.contentUrl);
+  return text(value);
+}
+
+function instructionSteps(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value.split(/\n+/).map((line) => line.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap(instructionSteps);
+  if (isRecord(value)) {
+    // HowToSection wraps its steps in itemListElement
+    if (value.itemListElement) return instructionSteps(value.itemListElement);
+    const step = text(value.text) ?? text(value.name);
+    return step ? [step] : [];
+  }
+  return [];
+}
+
+function yieldServings(value: unknown): number | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const servings = yieldServings(item);
+      if (servings) return servings;
+    }
+    return undefined;
+  }
+  const match = /\d+/.exec(text(value) ?? "");
+  return match ? Number(match[0]) : undefined;
+}
+
+/** Read a schema.org Recipe from parsed JSON-LD. Throws if none is found. */
+export function fromJsonLd(json: unknown): Recipe {
+  const node = findRecipeNode(json);
+  if (!node) throw new Error("No schema.org Recipe found in this file");
+
+  const title = text(node.name);
+  if (!title) throw new Error("Recipe has no name");
+
+  // `ingredients` is the pre-2017 name for recipeIngredient
+  const rawIngredients = node.recipeIngredient ?? node.ingredients;
+  const ingredients = (Array.isArray(rawIngredients) ? rawIngredients : [])
+    .map(text)
+    .filter((i): i is string => Boolean(i));
+  const steps = instructionSteps(node.recipeInstructions);
+  if (ingredients.length === 0 && steps.length === 0) {
+    throw new Error("Recipe has no ingredients or instructions");
+  }
+
+  const basedOn = Array.isArray(node.isBasedOn) ? node.isBasedOn[0] : node.isBasedOn;
+  const source = isRecord(basedOn) ? basedOn : {};
+  const publisher = isRecord(source.publisher) ? source.publisher : isRecord(node.publisher) ? node.publisher : {};
+  const tutorialUrl = text(source.url) ?? text(basedOn) ?? text(node.url);
+
+  return {
+    title,
+    servings: yieldServings(node.recipeYield) ?? 1,
+    prepTimeMinutes: fromIsoDuration(node.totalTime) ?? fromIsoDuration(node.prepTime) ?? 0,
+    ingredients,
+    steps,
+    tutorialUrl,
+    tutorialTitle: text(source.name),
+    tutorialSource: text(publisher.name),
+    ogImage: imageUrl(node.image) ?? imageUrl(source.image),
+    ogTitle: text(source.name),
+    ogDescription: text(node.description) ?? text(source.description),
+  };
+}
+
+/** Parse a .json/.jsonld file, or an HTML page containing a JSON-LD script. */
+export function parseRecipeFile(contents: string): Recipe {
+  const trimmed = contents.trim();
+  if (trimmed.startsWith("<")) {
+    const scripts = [...trimmed.matchAll(/<script[^>]*application\/ld\+json[^>]*>([\s\S]*?)<\/script>/gi)];
+    for (const [, body] of scripts) {
+      try {
+        return fromJsonLd(JSON.parse(body));
+      } catch {
+        // try the next script block
+      }
+    }
+    throw new Error("No schema.org Recipe found in this page");
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(trimmed);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  return fromJsonLd(json);
+}
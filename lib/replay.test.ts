@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { EventLogEntry } from "./event-log";
+import { replayEventLog } from "./replay";
+
+const T0 = 1_000_000;
+
+function entry(t: number, direction: EventLogEntry["direction"], topic: string, message: object): EventLogEntry {
+  return { t: T0 + t, direction, topic, agent: direction === "received" ? true : undefined, payload: JSON.stringify(message) };
+}
+
+function replay(...entries: EventLogEntry[]) {
+  return replayEventLog({ version: 1, entries });
+}
+
+describe("replayEventLog", () => {
+  it("applies agent messages in order", () => {
+    const steps = replay(
+      entry(0, "received", "recipe", {
+        type: "recipe_start",
+        title: "Pancakes",
+        servings: 2,
+        prep_time_minutes: 20,
+        ingredients: ["2 eggs"],
+        steps: ["Mix", "Fry"],
+      }),
+      entry(1000, "received", "recipe", { type: "step_update", step_number: 2 }),
+    );
+    expect(steps.map((s) => s.outcome)).toEqual(["applied", "applied"]);
+    expect(steps[1].state.recipe).toMatchObject({ title: "Pancakes", currentStep: 2 });
+  });
+
+  it("rejects messages that don't decode and ignores ones that don't apply", () => {
+    const steps = replay(
+      entry(0, "received", "recipe", { type: "step_update" }),
+      entry(0, "received", "recipe", { type: "step_update", step_number: 2 }),
+    );
+    expect(steps[0].outcome).toBe("rejected");
+    expect(steps[1]).toMatchObject({ outcome: "ignored", detail: "no recipe to move through" });
+  });
+
+  it("takes timers started from step text from the published timer_state", () => {
+    const steps = replay(
+      entry(0, "published", "timer", {
+        type: "timer_state",
+        event: "started",
+        timer_id: "timer-0",
+        timers: [
+          { id: "timer-0", label: "Simmer", duration_seconds: 600, remaining_seconds: 600, paused: false, ends_at: T0 + 600_000, step_number: 2 },
+        ],
+      }),
+      // The agent's own unnamed timer gets the next id, as it would live
+      entry(1000, "received", "timer", { type: "set_timer", label: "Pasta", duration_seconds: 60 }),
+    );
+    expect(steps[0].outcome).toBe("applied");
+    expect(steps[1].state.timers.map((t) => t.id)).toEqual(["timer-0", "timer-1"]);
+  });
+
+  it("rejects published messages that don't match what the UI sends", () => {
+    const steps = replay(
+      entry(0, "published", "timer", { type: "timer_state", event: "started", timer_id: "timer-0" }),
+      { t: T0 + 1000, direction: "published", topic: "timer", payload: "{not json" },
+    );
+    expect(steps.map((s) => s.outcome)).toEqual(["rejected", "rejected"]);
+    expect(steps[0].type).toBe("timer_state");
+    expect(steps[1].state).toEqual(steps[0].state);
+  });
+
+  it("doesn't reuse the ids of cancelled timers", () => {
+    const steps = replay(
+      entry(0, "received", "timer", { type: "set_timer", label: "Pasta", duration_seconds: 60 }),
+      entry(1000, "received", "timer", { type: "cancel_timer", label: "pasta" }),
+      entry(2000, "received", "timer", { type: "set_timer", label: "Sauce", duration_seconds: 60 }),
+    );
+    expect(steps[2].state.timers.map((t) => t.id)).toEqual(["timer-1"]);
+  });
+
+  it("finishes timers that ran out between entries", () => {
+    const steps = replay(
+      entry(0, "received", "timer", { type: "set_timer", label: "Eggs", duration_seconds: 5 }),
+      entry(10_000, "published", "dish_selection", { type: "select_dish", title: "Omelette" }),
+    );
+    expect(steps[1].finished.map((t) => t.label)).toEqual(["Eggs"]);
+    expect(steps[1].state).toMatchObject({ timers: [], chosenDish: "Omelette" });
+  });
+
+  it("ignores agent-only messages from other cooks", () => {
+    const other = { ...entry(0, "received", "dish_selection", { type: "select_dish", title: "Soup" }), agent: false };
+    expect(replay(other)[0]).toMatchObject({ outcome: "ignored", detail: "agent-only message from another cook" });
+  });
+});
@@ -0,0 +1,93 @@
+import type { EventLog, EventLogEntry } from "./event-log";
+import { decodeAgentMessage, decodeClientMessage, decodePeerMessage } from "./protocol";
+import {
+  EMPTY_SESSION_VIEW,
+  reduceAgentMessage,
+  reducePeerMessage,
+  reducePublishedMessage,
+  reduceTimer,
+  type Reduced,
+  type SessionView,
+} from "./session-reducer";
+import type { Timer } from "./types";
+
+// Rebuilds the session UI state from a recorded event log, one message at a
+// time, through the same reducer as VoiceAssistantUI (lib/session-reducer) but
+// as a pure function of the log so any step can be inspected after the fact.
+// Timer times come from the log, not the clock.
+
+export type ReplayState = SessionView;
+
+export type ReplayOutcome = "applied" | "ignored" | "rejected";
+
+export interface ReplayStep {
+  entry: EventLogEntry;
+  type?: string; // message type, when the payload has one
+  outcome: ReplayOutcome;
+  detail?: string; // why it was ignored or rejected
+  warnings: string[];
+  finished: Timer[]; // timers that ran out since the previous entry
+  state: ReplayState; // after this entry
+}
+
+function typeOf(payload: string): string | undefined {
+  try {
+    const raw = JSON.parse(payload);
+    return typeof raw?.type === "string" ? raw.type : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function outcomeOf(
+  type: string | undefined,
+  reduced: Reduced,
+  warnings: string[],
+  state: ReplayState,
+): Omit<ReplayStep, "entry" | "finished"> {
+  return reduced.state
+    ? { type, outcome: "applied", warnings, state: reduced.state }
+    : { type, outcome: "ignored", detail: reduced.detail, warnings, state };
+}
+
+function replayEntry(state: ReplayState, entry: EventLogEntry): Omit<ReplayStep, "entry" | "finished"> {
+  const bytes = new TextEncoder().encode(entry.payload);
+  const type = typeOf(entry.payload);
+
+  if (entry.direction === "received" && entry.agent !== false) {
+    const result = decodeAgentMessage(bytes, entry.topic);
+    if (!result.ok) return { type, outcome: "rejected", detail: result.error, warnings: result.warnings, state };
+    return outcomeOf(type, reduceAgentMessage(state, result.message, entry.t), result.warnings, state);
+  }
+
+  if (entry.direction === "published") {
+    // Logs can be edited by hand, so even our own messages are checked
+    const result = decodeClientMessage(bytes, entry.topic);
+    if (!result.ok) return { type, outcome: "rejected", detail: result.error, warnings: result.warnings, state };
+    return outcomeOf(type, reducePublishedMessage(state, result.message, entry.t), result.warnings, state);
+  }
+
+  const result = decodePeerMessage(bytes, entry.topic);
+  if (!result.ok) return { type, outcome: "rejected", detail: result.error, warnings: result.warnings, state };
+  if (!result.message) {
+    return { type, outcome: "ignored", detail: "agent-only message from another cook", warnings: result.warnings, state };
+  }
+  return outcomeOf(type, reducePeerMessage(state, result.message), result.warnings, state);
+}
+
+/** Every entry in the log with the state it left the UI in. */
+export function replayEventLog(log: EventLog): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  let state = EMPTY_SESSION_VIEW;
+  for (const entry of log.entries) {
+    // Timers that ran out before this message was sent or received
+    const finished = state.timers.filter((t) => t.pausedAt === undefined && t.endsAt <= entry.t);
+    for (const timer of finished) {
+      state = reduceTimer(state, { type: "finish", id: timer.id }, entry.t).state ?? state;
+    }
+    const step = replayEntry(state, entry);
+    state = step.state;
+    steps.push({ ...step, entry, finished });
+  }
+  return steps;
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { AgentMessage } from "./protocol";
+import {
+  EMPTY_SESSION_VIEW,
+  findTimer,
+  reduceAgentMessage,
+  reducePeerMessage,
+  reducePublishedMessage,
+  reduceTimer,
+  type Reduced,
+  type SessionView,
+} from "./session-reducer";
+import type { Timer } from "./types";
+
+const T0 = 1_000_000;
+
+function stateOf(reduced: Reduced): SessionView {
+  if (!reduced.state) throw new Error(`not applied: ${reduced.detail}`);
+  return reduced.state;
+}
+
+function withTimers(...labels: string[]): SessionView {
+  return labels.reduce(
+    (state, label) => stateOf(reduceTimer(state, { type: "start", label, durationSeconds: 60 }, T0)),
+    EMPTY_SESSION_VIEW,
+  );
+}
+
+describe("reduceTimer", () => {
+  it("numbers unnamed timers from a counter that never goes back", () => {
+    let state = withTimers("Pasta", "Sauce");
+    expect(state.timers.map((t) => t.id)).toEqual(["timer-0", "timer-1"]);
+    state = stateOf(reduceTimer(state, { type: "cancel", id: "timer-0" }, T0));
+    state = stateOf(reduceTimer(state, { type: "start", label: "Bread", durationSeconds: 60 }, T0));
+    expect(state.timers.map((t) => t.id)).toEqual(["timer-1", "timer-2"]);
+  });
+
+  it("keeps the agent's id unless it is taken", () => {
+    let state = stateOf(reduceTimer(EMPTY_SESSION_VIEW, { type: "start", label: "Eggs", durationSeconds: 60, id: "eggs" }, T0));
+    state = stateOf(reduceTimer(state, { type: "start", label: "Eggs", durationSeconds: 60, id: "eggs" }, T0));
+    expect(state.timers.map((t) => t.id)).toEqual(["eggs", "timer-0"]);
+  });
+
+  it("moves the end time by however long a timer was paused", () => {
+    let state = withTimers("Rice");
+    state = stateOf(reduceTimer(state, { type: "pause", id: "timer-0" }, T0 + 10_000));
+    const resumed = reduceTimer(state, { type: "resume", id: "timer-0" }, T0 + 40_000);
+    expect(resumed.timerChange?.event).toBe("resumed");
+    const [timer] = stateOf(resumed).timers;
+    expect(timer.endsAt).toBe(T0 + 90_000);
+    expect(timer.pausedAt).toBeUndefined();
+  });
+
+  it("reports changes that don't apply", () => {
+    const state = withTimers("Rice");
+    expect(reduceTimer(state, { type: "resume", id: "timer-0" }, T0)).toEqual({ detail: "not paused" });
+    expect(reduceTimer(state, { type: "cancel", id: "missing" }, T0)).toEqual({ detail: "no timer matches" });
+  });
+});
+
+describe("findTimer", () => {
+  const timers: Timer[] = withTimers("Pasta water", "Sauce").timers;
+
+  it("resolves by id, then label, then the only timer", () => {
+    expect(findTimer(timers, { id: "timer-1" })?.label).toBe("Sauce");
+    expect(findTimer(timers, { label: "pasta" })?.id).toBe("timer-0");
+    expect(findTimer(timers, {})).toBeUndefined();
+    expect(findTimer(timers.slice(1), {})?.label).toBe("Sauce");
+  });
+});
+
+describe("reduceAgentMessage", () => {
+  const recipeStart: AgentMessage = {
+    type: "recipe_start",
+    title: "Pancakes",
+    servings: 2,
+    prep_time_minutes: 20,
+    ingredients: ["2 eggs"],
+    steps: ["Mix", "Fry"],
+  };
+
+  it("starts a recipe in place of the suggestions", () => {
+    const suggested = { ...EMPTY_SESSION_VIEW, dishSuggestions: [{ title: "Waffles", description: "" }] };
+    const state = stateOf(reduceAgentMessage(suggested, recipeStart, T0));
+    expect(state.recipe).toMatchObject({ title: "Pancakes", servings: 2, steps: ["Mix", "Fry"] });
+    expect(state.dishSuggestions).toEqual([]);
+  });
+
+  it("needs a recipe to move through", () => {
+    expect(reduceAgentMessage(EMPTY_SESSION_VIEW, { type: "step_update", step_number: 2 }, T0)).toEqual({
+      detail: "no recipe to move through",
+    });
+  });
+
+  it("resolves agent timer references by label", () => {
+    const state = withTimers("Pasta");
+    const reduced = reduceAgentMessage(state, { type: "extend_timer", label: "pasta", seconds: 30 }, T0);
+    expect(reduced.timerChange?.event).toBe("extended");
+    expect(stateOf(reduced).timers[0].duration).toBe(90);
+  });
+});
+
+describe("reducePeerMessage", () => {
+  it("drops scaled servings when set back to the recipe's own", () => {
+    const recipe = { title: "Soup", servings: 4, scaledServings: 8, prepTimeMinutes: 0, ingredients: [], steps: [] };
+    const state = stateOf(
+      reducePeerMessage({ ...EMPTY_SESSION_VIEW, recipe }, { type: "set_servings", servings: 4, original_servings: 4 }),
+    );
+    expect(state.recipe?.scaledServings).toBeUndefined();
+  });
+});
+
+describe("reducePublishedMessage", () => {
+  it("takes timers from a timer_state snapshot and counts their ids", () => {
+    const state = stateOf(
+      reducePublishedMessage(
+        EMPTY_SESSION_VIEW,
+        {
+          type: "timer_state",
+          event: "started",
+          timer_id: "timer-3",
+          timers: [
+            { id: "timer-3", label: "Simmer", duration_seconds: 600, remaining_seconds: 600, paused: false, ends_at: T0 + 600_000, step_number: 2 },
+            { id: "rest", label: "Rest", duration_seconds: 300, remaining_seconds: 120, paused: true, ends_at: null },
+          ],
+        },
+        T0,
+      ),
+    );
+    expect(state.timers).toEqual([
+      { id: "timer-3", label: "Simmer", endsAt: T0 + 600_000, duration: 600, step: 2 },
+      { id: "rest", label: "Rest", endsAt: T0 + 120_000, duration: 300, pausedAt: T0 },
+    ]);
+    expect(state.nextTimerId).toBe(4);
+  });
+
+  it("ignores what only the agent reads", () => {
+    expect(reducePublishedMessage(EMPTY_SESSION_VIEW, { type: "more_like_this", title: "Soup" }, T0)).toEqual({
+      detail: "for the agent or other cooks only",
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { mergeGroceryList } from "./grocery";
+import type { AgentMessage, ClientMessage, PeerMessage, TimerEvent } from "./protocol";
+import { fromWireRecipe } from "./recipe-formats";
+import { fromWireDishOption } from "./suggestions";
+import { fromWireTimer } from "./timers";
+import type { DishOption, GroceryItem, Recipe, Timer } from "./types";
+
+// What the session UI shows and how each data-channel message changes it.
+// Pure, with the time passed in, so VoiceAssistantUI and the event log
+// replay (lib/replay) apply messages the same way.
+
+export interface SessionView {
+  recipe: Recipe | null;
+  dishSuggestions: DishOption[];
+  chosenDish: string | null;
+  groceryList: GroceryItem[];
+  timers: Timer[];
+  nextTimerId: number; // for timers nobody named; only ever goes up
+  cameraRequested: boolean;
+}
+
+export const EMPTY_SESSION_VIEW: SessionView = {
+  recipe: null,
+  dishSuggestions: [],
+  chosenDish: null,
+  groceryList: [],
+  timers: [],
+  nextTimerId: 0,
+  cameraRequested: false,
+};
+
+/** A change to one timer, for telling the agent about it. */
+export interface TimerChange {
+  event: TimerEvent;
+  timer: Timer;
+}
+
+export type Reduced =
+  | { state: SessionView; timerChange?: TimerChange }
+  | { state?: undefined; timerChange?: undefined; detail: string };
+
+export type TimerAction =
+  | { type: "start"; label: string; durationSeconds: number; id?: string; step?: number }
+  | { type: "pause" | "resume" | "cancel" | "finish"; id: string }
+  | { type: "extend"; id: string; seconds: number };
+
+/** Resolve an agent-side reference: exact id, then label, then the only timer. */
+export function findTimer(timers: Timer[], ref: { id?: string; label?: string }): Timer | undefined {
+  if (ref.id) return timers.find((t) => t.id === ref.id);
+  if (ref.label) {
+    const label = ref.label.trim().toLowerCase();
+    return (
+      timers.find((t) => t.label.toLowerCase() === label) ??
+      timers.find((t) => t.label.toLowerCase().includes(label))
+    );
+  }
+  return timers.length === 1 ? timers[0] : undefined;
+}
+
+function withTimer(state: SessionView, event: TimerEvent, updated: Timer): Reduced {
+  return {
+    state: { ...state, timers: state.timers.map((t) => (t.id === updated.id ? updated : t)) },
+    timerChange: { event, timer: updated },
+  };
+}
+
+export function reduceTimer(state: SessionView, action: TimerAction, now: number): Reduced {
+  if (action.type === "start") {
+    let { nextTimerId } = state;
+    let id = action.id;
+    while (!id || state.timers.some((t) => t.id === id)) id = `timer-${nextTimerId++}`;
+    const timer: Timer = {
+      id,
+      label: action.label,
+      endsAt: now + action.durationSeconds * 1000,
+      duration: action.durationSeconds,
+      step: action.step,
+    };
+    return { state: { ...state, timers: [...state.timers, timer], nextTimerId }, timerChange: { event: "started", timer } };
+  }
+
+  const timer = state.timers.find((t) => t.id === action.id);
+  if (!timer) return { detail: "no timer matches" };
+  switch (action.type) {
+    case "cancel":
+    case "finish":
+      return {
+        state: { ...state, timers: state.timers.filter((t) => t.id !== timer.id) },
+        timerChange: { event: action.type === "cancel" ? "cancelled" : "finished", timer },
+      };
+    case "pause":
+      if (timer.pausedAt !== undefined) return { detail: "already paused" };
+      return withTimer(state, "paused", { ...timer, pausedAt: now });
+    case "resume": {
+      if (timer.pausedAt === undefined) return { detail: "not paused" };
+      const { pausedAt, ...rest } = timer;
+      return withTimer(state, "resumed", { ...rest, endsAt: timer.endsAt + (now - pausedAt) });
+    }
+    case "extend":
+      return withTimer(state, "extended", {
+        ...timer,
+        endsAt: timer.endsAt + action.seconds * 1000,
+        duration: Math.max(0, timer.duration + action.seconds),
+      });
+  }
+}
+
+export function reduceAgentMessage(state: SessionView, msg: AgentMessage, now: number): Reduced {
+  const { recipe } = state;
+  switch (msg.type) {
+    case "set_timer":
+      return reduceTimer(state, { type: "start", label: msg.label, durationSeconds: msg.duration_seconds, id: msg.id }, now);
+    case "pause_timer":
+    case "resume_timer":
+    case "extend_timer":
+    case "cancel_timer": {
+      const timer = findTimer(state.timers, msg);
+      if (!timer) return { detail: "no timer matches" };
+      if (msg.type === "extend_timer") return reduceTimer(state, { type: "extend", id: timer.id, seconds: msg.seconds }, now);
+      const type = msg.type === "pause_timer" ? "pause" : msg.type === "resume_timer" ? "resume" : "cancel";
+      return reduceTimer(state, { type, id: timer.id }, now);
+    }
+    case "request_camera":
+      return { state: { ...state, cameraRequested: true } };
+    case "recipe_start":
+      return {
+        state: {
+          ...state,
+          recipe: {
+            title: msg.title,
+            servings: msg.servings || 1,
+            prepTimeMinutes: msg.prep_time_minutes || 0,
+            ingredients: msg.ingredients || [],
+            steps: msg.steps || [],
+          },
+          dishSuggestions: [], // a recipe replaces the suggestions
+        },
+      };
+    case "recipe_refresh":
+      if (!recipe) return { detail: "no recipe to refresh" };
+      return {
+        state: {
+          ...state,
+          recipe: {
+            ...recipe,
+            title: msg.title || recipe.title,
+            ingredients: msg.ingredients || recipe.ingredients,
+            steps: msg.steps || recipe.steps,
+          },
+        },
+      };
+    case "step_update":
+      if (!recipe) return { detail: "no recipe to move through" };
+      return { state: { ...state, recipe: { ...recipe, currentStep: msg.step_number } } };
+    case "recipe_update":
+      if (!recipe) return { detail: "no recipe to update" };
+      return {
+        state: {
+          ...state,
+          recipe: {
+            ...recipe,
+            tutorialUrl: msg.tutorial_url,
+            tutorialTitle: msg.tutorial_title,
+            tutorialSource: msg.tutorial_source,
+            ogImage: msg.og_image,
+            ogTitle: msg.og_title,
+            ogDescription: msg.og_description,
+          },
+        },
+      };
+    case "recipe_end":
+      return { state: { ...state, recipe: null } };
+    case "dish_suggestions":
+      return { state: { ...state, dishSuggestions: msg.options.map(fromWireDishOption) } };
+    case "grocery_list_update":
+    case "grocery_list_show":
+      return { state: { ...state, groceryList: mergeGroceryList(state.groceryList, msg.items) } };
+  }
+}
+
+/** Another cook's change, or their state when we join; see PeerMessage. */
+export function reducePeerMessage(state: SessionView, msg: PeerMessage): Reduced {
+  const { recipe } = state;
+  switch (msg.type) {
+    case "session_state":
+      return {
+        state: {
+          ...state,
+          recipe: msg.recipe ? fromWireRecipe(msg.recipe) : null,
+          groceryList: mergeGroceryList(state.groceryList, msg.grocery_list),
+          dishSuggestions: msg.dish_suggestions.map(fromWireDishOption),
+        },
+      };
+    case "go_to_step":
+      if (!recipe) return { detail: "no recipe to move through" };
+      return { state: { ...state, recipe: { ...recipe, currentStep: msg.step_number } } };
+    case "set_servings":
+      if (!recipe) return { detail: "no recipe to scale" };
+      return {
+        state: {
+          ...state,
+          recipe: { ...recipe, scaledServings: msg.servings === recipe.servings ? undefined : msg.servings },
+        },
+      };
+    case "grocery_item_toggle":
+      return { state: { ...state, groceryList: mergeGroceryList(state.groceryList, msg.items) } };
+  }
+}
+
+/**
+ * A message we publish, as the change it stands for. The live UI makes the
+ * change before publishing; the replay only has the message to go on.
+ */
+export function reducePublishedMessage(state: SessionView, msg: ClientMessage, now: number): Reduced {
+  switch (msg.type) {
+    case "select_dish":
+      return { state: { ...state, dishSuggestions: [], chosenDish: msg.title } };
+    case "timer_state": {
+      // Every change is in here, including timers started from step text that
+      // the agent never asked for; those used up an id from the counter
+      let { nextTimerId } = state;
+      const timers = msg.timers.map((wire) => {
+        const known = state.timers.find((t) => t.id === wire.id);
+        const counted = /^timer-(\d+)$/.exec(wire.id);
+        if (!known && counted) nextTimerId = Math.max(nextTimerId, Number(counted[1]) + 1);
+        // Keep when it was paused; the snapshot only has what was left
+        return known && known.pausedAt !== undefined && wire.paused ? known : fromWireTimer(wire, now);
+      });
+      return { state: { ...state, timers, nextTimerId } };
+    }
+    case "go_to_step":
+    case "set_servings":
+    case "grocery_item_toggle":
+      return reducePeerMessage(state, msg);
+    default:
+      return { detail: "for the agent or other cooks only" };
+  }
+}
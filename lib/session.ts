@@ -0,0 +1,114 @@
+import { createLocalStore, useLocalStore } from "./local-store";
+import type { DishOption, GroceryItem, Recipe, Timer, TranscriptEntry } from "./types";
+
+// Snapshot of an in-progress cooking session, kept in localStorage so a
+// refresh or dropped connection doesn't lose the recipe mid-cook.
+
+const SNAPSHOT_VERSION = 1;
+
+// Sessions older than this are considered abandoned
+const MAX_AGE_MS = 12 * 60 * 60 * 1000;
+// Interim transcription changes the session several times a second while
+// someone talks; saves within this window cost one write
+const SAVE_DELAY_MS = 1000;
+
+export interface SessionSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  savedAt: number;
+  resume?: string; // server-signed resume token for the room, if we started it
+  joinCode?: string; // the invite we came in with, if we joined someone else's room
+  logId?: string; // cook log entry this session records into
+  recipe: Recipe | null;
+  groceryList: GroceryItem[];
+  dishSuggestions: DishOption[];
+  timers: Timer[]; // absolute endsAt, so time keeps running while away
+  transcript: TranscriptEntry[];
+}
+
+export type SessionState = Omit<SessionSnapshot, "version" | "savedAt">;
+
+/** True when the snapshot has nothing worth resuming. */
+export function isEmptySession(state: SessionState): boolean {
+  return (
+    !state.recipe &&
+    state.groceryList.length === 0 &&
+    state.dishSuggestions.length === 0 &&
+    state.timers.length === 0 &&
+    state.transcript.length === 0
+  );
+}
+
+/** A fresh session that starts on a known recipe, e.g. one imported from a file. */
+export function sessionFromRecipe(recipe: Recipe): SessionSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    recipe,
+    groceryList: [],
+    dishSuggestions: [],
+    timers: [],
+    transcript: [],
+  };
+}
+
+function parseSnapshot(raw: string | null): SessionSnapshot | null {
+  if (!raw) return null;
+  try {
+    const snapshot = JSON.parse(raw) as SessionSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) return null;
+    if (Date.now() - snapshot.savedAt > MAX_AGE_MS) return null;
+    // Snapshots saved before the transcript was added
+    return { ...snapshot, transcript: snapshot.transcript ?? [] };
+  } catch {
+    return null;
+  }
+}
+
+const store = createLocalStore("chef-claude:session", parseSnapshot);
+
+export function loadSession(): SessionSnapshot | null {
+  if (typeof window === "undefined") return null;
+  flushSession();
+  return store.read();
+}
+
+let pending: SessionState | null = null;
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function flushSession() {
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = null;
+  if (!pending) return;
+  const state = pending;
+  pending = null;
+  writeSession(state);
+}
+
+/** Save shortly; a burst of changes is written once. `loadSession` sees unwritten changes. */
+export function saveSession(state: SessionState) {
+  pending = state;
+  if (!saveTimeout) {
+    window.addEventListener("pagehide", flushSession, { once: true });
+    saveTimeout = setTimeout(flushSession, SAVE_DELAY_MS);
+  }
+}
+
+function writeSession(state: SessionState) {
+  if (isEmptySession(state)) {
+    clearSession();
+    return;
+  }
+  store.write({ version: SNAPSHOT_VERSION, savedAt: Date.now(), ...state });
+}
+
+export function clearSession() {
+  pending = null;
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = null;
+  store.write(null);
+}
+
+/** The saved session, if any. Always null during server rendering. */
+export function useSavedSession(): SessionSnapshot | null {
+  return useLocalStore(store);
+}
@@ -0,0 +1,267 @@
+import { agentMessageTopic, PROTOCOL_VERSION, Topic, type AgentMessage } from "./protocol";
+
+// Scripted agent traffic for building the UI without a LiveKit server or a
+// running agent. Development only: events are injected as if they had
+// arrived on the data channel, so they go through the real decode and apply
+// path, including its validation and logging.
+
+const STORAGE_KEY = "chef-claude:simulator-timeline";
+
+export interface SimulatedEvent {
+  id: string;
+  delayMs: number; // after the previous event
+  topic: string;
+  payload: string; // sent as-is, so it can be anything, including invalid JSON
+  note?: string;
+}
+
+export interface Scenario {
+  name: string;
+  description: string;
+  build: () => SimulatedEvent[]; // fresh ids each time it's loaded
+}
+
+export const TOPICS: string[] = Object.values(Topic);
+
+let nextId = 0;
+
+export function newEventId(): string {
+  nextId += 1;
+  return `sim-${Date.now().toString(36)}-${nextId}`;
+}
+
+/** A well-formed agent message on its proper topic. */
+export function agentEvent(message: AgentMessage, delayMs = 1500, note?: string): SimulatedEvent {
+  return {
+    id: newEventId(),
+    delayMs,
+    topic: agentMessageTopic(message.type),
+    payload: JSON.stringify({ version: PROTOCOL_VERSION, ...message }, null, 2),
+    note,
+  };
+}
+
+/** Anything at all on any topic, for exercising validation. */
+export function rawEvent(topic: string, payload: string, note: string, delayMs = 800): SimulatedEvent {
+  return { id: newEventId(), delayMs, topic, payload, note };
+}
+
+const PASTA_INGREDIENTS = [
+  "400 g spaghetti",
+  "150 g guanciale, cut into strips",
+  "4 egg yolks",
+  "1 whole egg",
+  "60 g pecorino romano, finely grated",
+  "30 g parmesan, finely grated",
+  "2 tsp black peppercorns, coarsely crushed",
+  "salt for the pasta water",
+];
+
+const PASTA_STEPS = [
+  "Bring a large pot of well-salted water to a boil.",
+  "Cook the guanciale in a dry pan over medium heat for 8-10 minutes, until the fat renders and it crisps.",
+  "Whisk the egg yolks, whole egg, pecorino, parmesan and most of the pepper into a thick paste.",
+  "Cook the spaghetti for 9 minutes, until just short of al dente. Save a mug of pasta water.",
+  "Toss the spaghetti with the guanciale off the heat, then stir in the egg mixture with a splash of pasta water until glossy.",
+  "Serve straight away with the remaining pepper and extra pecorino.",
+];
+
+function fullPastaSession(): SimulatedEvent[] {
+  return [
+    agentEvent({
+      type: "dish_suggestions",
+      options: [
+        {
+          title: "Spaghetti Carbonara",
+          description: "Roman classic with guanciale, egg and pecorino",
+          cuisine: "Italian",
+          time_minutes: 25,
+          difficulty: "medium",
+        },
+        {
+          title: "Cacio e Pepe",
+          description: "Three ingredients, all technique",
+          cuisine: "Italian",
+          time_minutes: 15,
+          difficulty: "hard",
+          dietary_tags: ["vegetarian"],
+        },
+        {
+          title: "Pasta e Ceci",
+          description: "Chickpea and pasta stew for cold nights",
+          cuisine: "Italian",
+          time_minutes: 40,
+          difficulty: "easy",
+          dietary_tags: ["vegetarian", "dairy-free"],
+        },
+      ],
+    }, 500, "Agent offers three pasta dishes"),
+    agentEvent({
+      type: "recipe_start",
+      title: "Spaghetti Carbonara",
+      servings: 4,
+      prep_time_minutes: 25,
+      ingredients: PASTA_INGREDIENTS,
+      steps: PASTA_STEPS,
+    }, 3000, "User picked carbonara"),
+    agentEvent({
+      type: "recipe_update",
+      tutorial_url: "https://example.com/videos/spaghetti-carbonara",
+      tutorial_title: "The Best Spaghetti Carbonara",
+      tutorial_source: "Example Kitchen",
+      og_title: "Spaghetti Carbonara, the Roman way",
+      og_description: "Guanciale, egg yolks, pecorino and plenty of black pepper.",
+    }, 1500, "Tutorial found"),
+    agentEvent({
+      type: "grocery_list_update",
+      items: [{ recipe: "Spaghetti Carbonara", ingredients: PASTA_INGREDIENTS.slice(0, 6) }],
+    }, 1500),
+    agentEvent({
+      type: "grocery_list_show",
+      items: [{
+        recipe: "Spaghetti Carbonara",
+        ingredients: PASTA_INGREDIENTS.slice(0, 6),
+        checked: ["400 g spaghetti"],
+      }],
+    }, 2000, "User already has spaghetti"),
+    agentEvent({ type: "step_update", step_number: 1 }, 3000),
+    agentEvent({ type: "step_update", step_number: 2 }, 3000),
+    agentEvent({ type: "set_timer", id: "guanciale", label: "Guanciale", duration_seconds: 540 }, 1000),
+    agentEvent({ type: "step_update", step_number: 3 }, 3000),
+    agentEvent({ type: "request_camera" }, 2000, "Agent wants to check the egg mixture"),
+    agentEvent({ type: "step_update", step_number: 4 }, 4000),
+    agentEvent({ type: "set_timer", id: "spaghetti", label: "Spaghetti", duration_seconds: 540 }, 1000),
+    agentEvent({ type: "pause_timer", label: "guanciale" }, 3000, "Paused by label"),
+    agentEvent({ type: "extend_timer", id: "spaghetti", seconds: 60 }, 2000),
+    agentEvent({ type: "cancel_timer", id: "guanciale" }, 2000),
+    agentEvent({ type: "step_update", step_number: 5 }, 4000),
+    agentEvent({ type: "step_update", step_number: 6 }, 3000),
+  ];
+}
+
+function malformedPayloads(): SimulatedEvent[] {
+  const v = PROTOCOL_VERSION;
+  return [
+    rawEvent(Topic.Recipe, "{not json", "Invalid JSON"),
+    rawEvent(Topic.Recipe, "[1, 2, 3]", "Not an object"),
+    rawEvent(Topic.Recipe, JSON.stringify({ version: v, title: "No type" }), "Missing type"),
+    rawEvent(Topic.Recipe, JSON.stringify({ version: v, type: "recipe_explode" }), "Unknown type"),
+    rawEvent(Topic.Timer, JSON.stringify({ version: v, type: "step_update", step_number: 2 }), "Valid type, wrong topic"),
+    rawEvent(Topic.Timer, JSON.stringify({ version: v, type: "set_timer", label: "Eggs" }), "Missing required field"),
+    rawEvent(
+      Topic.Timer,
+      JSON.stringify({ version: v, type: "set_timer", label: "Eggs", duration_seconds: "five minutes" }),
+      "Wrong field type",
+    ),
+    rawEvent(
+      Topic.Suggestions,
+      JSON.stringify({ version: v, type: "dish_suggestions", options: [{ title: "Soup" }] }),
+      "Nested object missing a field",
+    ),
+    rawEvent(Topic.Recipe, JSON.stringify({ version: v + 1, type: "recipe_end" }), "Newer protocol version"),
+    rawEvent(Topic.Recipe, JSON.stringify({ version: "1", type: "recipe_end" }), "Non-numeric version"),
+    rawEvent(
+      Topic.Recipe,
+      JSON.stringify({ type: "recipe_start", title: "Toast", servings: null, steps: ["Toast the bread."], colour: "golden" }),
+      "Accepted: no version, null optional field, unknown field warning",
+    ),
+    rawEvent(Topic.Timer, JSON.stringify({ version: v, type: "pause_timer", label: "souffle" }), "Accepted, but no timer matches"),
+    rawEvent(Topic.Recipe, "", "Empty payload"),
+  ];
+}
+
+function groceryRun(): SimulatedEvent[] {
+  return [
+    agentEvent({
+      type: "grocery_list_update",
+      items: [
+        { recipe: "Shakshuka", ingredients: ["6 eggs", "2 red peppers", "1 onion", "400 g canned tomatoes", "1 tsp cumin", "feta"] },
+        { recipe: "Greek Salad", ingredients: ["2 tomatoes", "1 cucumber", "1 red onion", "200 g feta", "kalamata olives"] },
+      ],
+    }, 500, "Two recipes with overlapping ingredients"),
+    agentEvent({
+      type: "grocery_list_show",
+      items: [
+        {
+          recipe: "Shakshuka",
+          ingredients: ["6 eggs", "2 red peppers", "1 onion", "400 g canned tomatoes", "1 tsp cumin", "feta"],
+          checked: ["1 tsp cumin"],
+        },
+        { recipe: "Greek Salad", ingredients: ["2 tomatoes", "1 cucumber", "1 red onion", "200 g feta", "kalamata olives"] },
+      ],
+    }, 2000, "Agent opens the list with cumin ticked"),
+    agentEvent({
+      type: "grocery_list_update",
+      items: [{ recipe: "Greek Salad", ingredients: ["2 tomatoes", "1 cucumber", "1 red onion", "200 g feta"] }],
+    }, 3000, "Shakshuka dropped, olives removed"),
+  ];
+}
+
+function timerJuggling(): SimulatedEvent[] {
+  return [
+    agentEvent({ type: "set_timer", label: "Rice", duration_seconds: 18 * 60 }, 300),
+    agentEvent({ type: "set_timer", label: "Eggs", duration_seconds: 10 }, 1000, "Finishes almost immediately"),
+    agentEvent({ type: "set_timer", id: "roast", label: "Roast chicken", duration_seconds: 75 * 60 }, 1000),
+    agentEvent({ type: "pause_timer" }, 2000, "Ambiguous: several timers are running"),
+    agentEvent({ type: "pause_timer", label: "rice" }, 1500),
+    agentEvent({ type: "extend_timer", id: "roast", seconds: 600 }, 1500),
+    agentEvent({ type: "resume_timer", label: "Rice" }, 2000),
+    agentEvent({ type: "cancel_timer", label: "roast chicken" }, 2000),
+  ];
+}
+
+export const SCENARIOS: Scenario[] = [
+  {
+    name: "Full pasta session",
+    description: "Suggestions, carbonara recipe, tutorial, grocery list, steps, timers and a camera request",
+    build: fullPastaSession,
+  },
+  {
+    name: "Malformed payloads",
+    description: "Every way a message can be rejected, plus a few that are accepted with warnings",
+    build: malformedPayloads,
+  },
+  {
+    name: "Grocery run",
+    description: "Multi-recipe grocery list with agent-side checks and a list that shrinks",
+    build: groceryRun,
+  },
+  {
+    name: "Timer juggling",
+    description: "Several timers controlled by id, by label and ambiguously",
+    build: timerJuggling,
+  },
+];
+
+function isEvent(value: unknown): value is SimulatedEvent {
+  if (typeof value !== "object" || value === null) return false;
+  const e = value as Record<string, unknown>;
+  return typeof e.id === "string" && typeof e.delayMs === "number" && typeof e.topic === "string" &&
+    typeof e.payload === "string";
+}
+
+/** A timeline from exported JSON. Throws if it isn't one. */
+export function parseTimeline(contents: string): SimulatedEvent[] {
+  const events = JSON.parse(contents);
+  if (!Array.isArray(events) || !events.every(isEvent)) {
+    throw new Error("Not a simulator timeline");
+  }
+  return events;
+}
+
+export function loadTimeline(): SimulatedEvent[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseTimeline(raw) : fullPastaSession();
+  } catch {
+    return fullPastaSession();
+  }
+}
+
+export function saveTimeline(events: SimulatedEvent[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
+  } catch (err) {
+    console.warn("[simulator] failed to save timeline", err);
+  }
+}
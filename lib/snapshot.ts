@@ -0,0 +1,69 @@
+import { createLocalVideoTrack, type LocalParticipant, type LocalVideoTrack } from "livekit-client";
+import { SNAPSHOT_TOPIC } from "./protocol";
+
+// Still photos as a light alternative to streaming video: one JPEG per
+// capture instead of a continuous track.
+
+const MAX_WIDTH = 1024;
+const JPEG_QUALITY = 0.8;
+
+async function grabFrame(mediaTrack: MediaStreamTrack): Promise<Blob> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([mediaTrack]);
+  try {
+    await video.play();
+    if (!video.videoWidth) {
+      await new Promise((resolve) => video.addEventListener("loadeddata", resolve, { once: true }));
+    }
+    const scale = Math.min(1, MAX_WIDTH / video.videoWidth);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext("2d")!.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("could not encode frame"))), "image/jpeg", JPEG_QUALITY),
+    );
+  } finally {
+    video.pause();
+    video.srcObject = null;
+  }
+}
+
+/**
+ * Capture a still from the published camera track, or, when the camera is
+ * off, from a short-lived local track that is never published.
+ */
+export async function captureStill(
+  publishedTrack: LocalVideoTrack | undefined,
+  facingMode: "user" | "environment",
+): Promise<Blob> {
+  if (publishedTrack) return grabFrame(publishedTrack.mediaStreamTrack);
+  const track = await createLocalVideoTrack({ facingMode });
+  try {
+    return await grabFrame(track.mediaStreamTrack);
+  } finally {
+    track.stop();
+  }
+}
+
+/** Send a captured still to the agent as a byte stream. */
+export async function sendSnapshot(
+  participant: LocalParticipant,
+  image: Blob,
+  context: { stepNumber?: number; recipeTitle?: string; question: string },
+) {
+  const attributes: Record<string, string> = { question: context.question };
+  if (context.stepNumber) attributes.step_number = String(context.stepNumber);
+  if (context.recipeTitle) attributes.recipe_title = context.recipeTitle;
+  const writer = await participant.streamBytes({
+    name: `snapshot-${Date.now()}.jpg`,
+    topic: SNAPSHOT_TOPIC,
+    mimeType: "image/jpeg",
+    totalSize: image.size,
+    attributes,
+  });
+  await writer.write(new Uint8Array(await image.arrayBuffer()));
+  await writer.close();
+}
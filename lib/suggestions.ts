@@ -0,0 +1,79 @@
+import type { WireDishOption, WireSuggestionFilters } from "./protocol";
+import type { DishOption } from "./types";
+
+const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export function fromWireDishOption(option: WireDishOption): DishOption {
+  const difficulty = option.difficulty?.toLowerCase();
+  return {
+    title: option.title,
+    description: option.description,
+    cuisine: option.cuisine || undefined,
+    timeMinutes: option.time_minutes ?? undefined,
+    difficulty: DIFFICULTIES.find((d) => d === difficulty),
+    dietaryTags: option.dietary_tags?.map((tag) => tag.toLowerCase()),
+    imageUrl: option.image_url || undefined,
+  };
+}
+
+export function toWireDishOption(option: DishOption): WireDishOption {
+  return {
+    title: option.title,
+    description: option.description,
+    cuisine: option.cuisine,
+    time_minutes: option.timeMinutes,
+    difficulty: option.difficulty,
+    dietary_tags: option.dietaryTags,
+    image_url: option.imageUrl,
+  };
+}
+
+export interface SuggestionFilters {
+  cuisine?: string;
+  maxTimeMinutes?: number;
+  difficulty?: DishOption["difficulty"];
+  dietaryTags: string[]; // all must be present
+}
+
+export const NO_FILTERS: SuggestionFilters = { dietaryTags: [] };
+
+export function hasFilters(filters: SuggestionFilters): boolean {
+  return Boolean(
+    filters.cuisine || filters.maxTimeMinutes || filters.difficulty || filters.dietaryTags.length > 0,
+  );
+}
+
+/** Options that pass every active filter. Unknown attributes never match a filter on them. */
+export function filterDishOptions(options: DishOption[], filters: SuggestionFilters): DishOption[] {
+  return options.filter(
+    (option) =>
+      (!filters.cuisine || option.cuisine === filters.cuisine) &&
+      (!filters.maxTimeMinutes ||
+        (option.timeMinutes !== undefined && option.timeMinutes <= filters.maxTimeMinutes)) &&
+      (!filters.difficulty || option.difficulty === filters.difficulty) &&
+      filters.dietaryTags.every((tag) => option.dietaryTags?.includes(tag)),
+  );
+}
+
+/** The values worth offering as filters, i.e. those that appear in the options. */
+export function filterChoices(options: DishOption[]) {
+  const unique = (values: (string | undefined)[]) =>
+    [...new Set(values.filter((v): v is string => Boolean(v)))].sort();
+  return {
+    cuisines: unique(options.map((o) => o.cuisine)),
+    difficulties: DIFFICULTIES.filter((d) => options.some((o) => o.difficulty === d)),
+    dietaryTags: unique(options.flatMap((o) => o.dietaryTags ?? [])),
+    hasTimes: options.some((o) => o.timeMinutes !== undefined),
+  };
+}
+
+/** Active filters in wire form, so follow-up suggestions respect them. */
+export function toWireFilters(filters: SuggestionFilters): WireSuggestionFilters | undefined {
+  if (!hasFilters(filters)) return undefined;
+  return {
+    cuisine: filters.cuisine,
+    max_time_minutes: filters.maxTimeMinutes,
+    difficulty: filters.difficulty,
+    dietary_tags: filters.dietaryTags.length > 0 ? filters.dietaryTags : undefined,
+  };
+}
@@ -0,0 +1,37 @@
+import type { WireTimerState } from "./protocol";
+import type { Timer } from "./types";
+
+export function timerRemainingMs(timer: Timer, now = Date.now()): number {
+  return Math.max(0, timer.endsAt - (timer.pausedAt ?? now));
+}
+
+export function formatTimeLeft(timer: Timer): string {
+  const left = Math.ceil(timerRemainingMs(timer) / 1000);
+  const m = Math.floor(left / 60);
+  const s = left % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+export function toWireTimer(timer: Timer, now = Date.now()): WireTimerState {
+  return {
+    id: timer.id,
+    label: timer.label,
+    duration_seconds: timer.duration,
+    remaining_seconds: Math.ceil(timerRemainingMs(timer, now) / 1000),
+    paused: timer.pausedAt !== undefined,
+    ends_at: timer.pausedAt === undefined ? timer.endsAt : null,
+    step_number: timer.step,
+  };
+}
+
+/** Back from the wire form; a paused timer counts as paused since `now`. */
+export function fromWireTimer(wire: WireTimerState, now = Date.now()): Timer {
+  return {
+    id: wire.id,
+    label: wire.label,
+    endsAt: wire.ends_at ?? now + wire.remaining_seconds * 1000,
+    duration: wire.duration_seconds,
+    ...(wire.paused ? { pausedAt: now } : {}),
+    ...(wire.step_number !== undefined ? { step: wire.step_number } : {}),
+  };
+}
@@ -0,0 +1,48 @@
+import type { TextStreamData } from "@livekit/components-react";
+import type { TranscriptEntry } from "./types";
+
+// Topic LiveKit agents listen on for typed user input
+export const CHAT_TOPIC = "lk.chat";
+
+// Keep stored transcripts bounded; older lines matter little mid-cook
+const MAX_ENTRIES = 200;
+
+/** Who else is speaking: other cooks' identities mapped to their display names. */
+export type OtherCooks = Map<string, string>;
+
+function fromTextStream(data: TextStreamData, localIdentity: string, others: OtherCooks): TranscriptEntry {
+  const attributes = data.streamInfo.attributes ?? {};
+  const final = attributes["lk.transcription_final"];
+  const identity = data.participantInfo.identity;
+  const speaker = others.get(identity);
+  return {
+    // Agents stream each segment separately; the segment id is stable across updates
+    id: attributes["lk.segment_id"] ?? data.streamInfo.id,
+    role: identity === localIdentity || speaker ? "user" : "agent",
+    ...(speaker ? { speaker } : {}),
+    text: data.text,
+    timestamp: data.streamInfo.timestamp,
+    final: final === undefined ? undefined : final === "true",
+  };
+}
+
+/**
+ * Combine restored, live and typed transcript lines into one chronological
+ * list. Later sources win when the same segment appears twice.
+ */
+export function mergeTranscript(
+  restored: TranscriptEntry[],
+  live: TextStreamData[],
+  typed: TranscriptEntry[],
+  localIdentity: string,
+  others: OtherCooks = new Map(),
+): TranscriptEntry[] {
+  const byId = new Map<string, TranscriptEntry>();
+  for (const entry of restored) byId.set(entry.id, entry);
+  for (const data of live) {
+    const entry = fromTextStream(data, localIdentity, others);
+    if (entry.text.trim()) byId.set(entry.id, entry);
+  }
+  for (const entry of typed) byId.set(entry.id, entry);
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp).slice(-MAX_ENTRIES);
+}
@@ -0,0 +1,61 @@
+// Client-side models for the cooking session. Wire formats live in protocol.ts.
+
+export interface Timer {
+  id: string;
+  label: string;
+  endsAt: number;
+  duration: number;
+  pausedAt?: number; // set while paused; endsAt is shifted forward on resume
+  step?: number; // recipe step it was started from, if started from step text
+}
+
+export interface Recipe {
+  title: string;
+  servings: number;
+  scaledServings?: number; // servings chosen by the user, if different
+  prepTimeMinutes: number;
+  ingredients: string[];
+  steps: string[];
+  currentStep?: number; // 1-based
+  tutorialUrl?: string;
+  tutorialTitle?: string;
+  tutorialSource?: string;
+  ogImage?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+}
+
+export interface DishOption {
+  title: string;
+  description: string;
+  cuisine?: string;
+  timeMinutes?: number;
+  difficulty?: "easy" | "medium" | "hard";
+  dietaryTags?: string[];
+  imageUrl?: string;
+}
+
+export interface GroceryItem {
+  recipe: string;
+  ingredients: string[];
+  checked: string[];
+  // User toggles the agent hasn't echoed back yet, keyed by ingredient
+  pendingChecks?: Record<string, boolean>;
+}
+
+export interface TranscriptEntry {
+  id: string;
+  role: "user" | "agent";
+  text: string;
+  timestamp: number;
+  typed?: boolean; // sent from the text box rather than spoken
+  final?: boolean;
+  speaker?: string; // another cook in a shared session; unset for us and the agent
+}
+
+export interface Snapshot {
+  id: string;
+  url: string; // object URL, valid for the lifetime of the session view
+  takenAt: number;
+  step?: number; // recipe step that was active when it was taken
+}
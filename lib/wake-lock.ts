@@ -0,0 +1,37 @@
+import { useEffect } from "react";
+
+/**
+ * Keep the screen on while `active`. The browser drops the lock whenever the
+ * tab is hidden, so it is re-acquired when the page becomes visible again.
+ */
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || typeof navigator === "undefined" || !("wakeLock" in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const acquire = async () => {
+      if (document.visibilityState !== "visible" || (sentinel && !sentinel.released)) return;
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (cancelled) {
+          lock.release();
+        } else {
+          sentinel = lock;
+        }
+      } catch (err) {
+        // Denied by battery saver or permissions policy; the screen may dim
+        console.warn("[wake-lock] could not keep the screen awake", err);
+      }
+    };
+
+    acquire();
+    document.addEventListener("visibilitychange", acquire);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", acquire);
+      sentinel?.release();
+    };
+  }, [active]);
+}